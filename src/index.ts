@@ -1,22 +1,116 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
+import { configureAuditLog } from './lib/auditLog.js';
 import { getPackageJson } from './lib/getPackageInfo.js';
-import { textEditorExecute, toolParameters } from './tools/textEditor.js';
+import {
+  configureEditHistory,
+  pruneEditHistory,
+  pruneOrphanedSessions,
+} from './lib/historyStore.js';
+import { MCP_PATH, SSE_PATH, startHttpServer } from './lib/httpServer.js';
+import { configurePathPolicy } from './lib/pathPolicy.js';
+import { trackPending, waitForPending } from './lib/pendingWork.js';
+import { parseServerOptions, ServerOptions } from './lib/serverOptions.js';
+import { endSession, withSession } from './lib/sessions.js';
+import { configureValidation } from './lib/syntaxCheck.js';
+import { registerFileResources } from './resources/fileResources.js';
+import { registerHistoryResource } from './resources/historyResource.js';
+import { getBuiltinEditorTool } from './tools/builtinTextEditor.js';
+import {
+  sessionAdminExecute,
+  sessionAdminParameters,
+} from './tools/sessionAdmin.js';
+import {
+  configureOutputLimit,
+  textEditorExecute,
+  toolParameters,
+} from './tools/textEditor.js';
 
-// Create server instance with package information
 const packageJson = getPackageJson();
-const server = new McpServer({
-  name: packageJson.name!,
-  version: packageJson.version!,
-});
 
-server.tool(
-  'text_editor',
-  "View, create, and edit files with persistent state across command calls.  This tool is identical with Claude's built in text editor tool called text_editor_20241022",
-  toolParameters,
-  textEditorExecute,
-);
+// How long shutdown waits for edits in progress to finish writing
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// How often the persisted history is checked against its size and age limits
+const HISTORY_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Runs a tool call in the state of the calling MCP session, and lets
+ * shutdown wait for it to finish.
+ */
+function sessionTool<Args, Result>(
+  execute: (args: Args) => Promise<Result>,
+): (args: Args, extra: { sessionId?: string }) => Promise<Result> {
+  return trackPending((args: Args, extra: { sessionId?: string }) =>
+    withSession(extra.sessionId, () => execute(args)),
+  );
+}
+
+/**
+ * Creates a server instance with package information, the text editor tool
+ * and the workspace files and change history as resources. The HTTP
+ * transports create one per session.
+ */
+function createServer(options: ServerOptions): McpServer {
+  const server = new McpServer({
+    name: packageJson.name!,
+    version: packageJson.version!,
+  });
+
+  if (options.toolVersion) {
+    // Emulate a built-in revision exactly, under its own tool name
+    const tool = getBuiltinEditorTool(options.toolVersion);
+    server.tool(
+      tool.name,
+      tool.description,
+      tool.parameters,
+      sessionTool(tool.execute),
+    );
+  } else {
+    server.tool(
+      'text_editor',
+      "View, create, and edit files with persistent state across command calls.  This tool is identical with Claude's built in text editor tool called text_editor_20241022",
+      toolParameters,
+      sessionTool(textEditorExecute),
+    );
+  }
+
+  if (options.admin) {
+    server.tool(
+      'text_editor_admin',
+      'List the sessions using this text editor server and clear the edit history and viewed files of a session.',
+      sessionAdminParameters,
+      sessionTool(sessionAdminExecute),
+    );
+  }
+
+  registerFileResources(server);
+  registerHistoryResource(server);
+  return server;
+}
+
+/**
+ * Calls `shutdown` once on SIGINT or SIGTERM, then exits.
+ */
+function onShutdownSignal(shutdown: () => Promise<void>): void {
+  let shuttingDown = false;
+  const handler = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down...`);
+    try {
+      await shutdown();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+    process.exit(0);
+  };
+  process.on('SIGINT', handler);
+  process.on('SIGTERM', handler);
+}
 
 async function main() {
   console.error(
@@ -24,15 +118,106 @@ async function main() {
   );
 
   try {
-    console.error('Initializing StdioServerTransport...');
-    const transport = new StdioServerTransport();
-
-    console.error('Connecting server to transport...');
-    await server.connect(transport);
+    const options = parseServerOptions();
+    const policy = await configurePathPolicy(options);
+    if (policy.roots.length === 0) {
+      console.error(
+        'Warning: no workspace roots configured (--root or TEXT_EDITOR_ROOTS), all absolute paths are accessible',
+      );
+    } else {
+      console.error(`Workspace roots: ${policy.roots.join(', ')}`);
+    }
+    if (policy.deny.length > 0) {
+      console.error(`Denied paths: ${policy.deny.join(', ')}`);
+    }
 
+    configureEditHistory(options.history);
     console.error(
-      `${packageJson.name} MCP Server v${packageJson.version} running on stdio`,
+      options.history.dir
+        ? `Persisting undo history in ${options.history.dir}`
+        : 'Undo history is kept in memory (use --history-dir to persist it)',
     );
+    const orphanedSessions = await pruneOrphanedSessions();
+    if (orphanedSessions.length > 0) {
+      console.error(
+        `Removed the history of ${orphanedSessions.length} session(s) left by a previous run`,
+      );
+    }
+    if (options.history.dir) {
+      await pruneEditHistory();
+      setInterval(() => {
+        pruneEditHistory().catch((error) =>
+          console.error('Error pruning the undo history:', error),
+        );
+      }, HISTORY_PRUNE_INTERVAL_MS).unref();
+    }
+
+    configureAuditLog(options.auditLog);
+    if (options.auditLog) {
+      console.error(`Appending changes to the audit log ${options.auditLog}`);
+    }
+
+    configureOutputLimit(options.outputLimit);
+    if (options.outputLimit) {
+      console.error(`Output limit: ${options.outputLimit} characters`);
+    }
+
+    configureValidation(options.validate);
+    if (options.validate !== 'off') {
+      console.error(`Validating edits: ${options.validate}`);
+    }
+
+    if (options.admin) {
+      console.error('Session admin tool enabled (text_editor_admin)');
+    }
+
+    if (options.toolVersion) {
+      console.error(
+        `Emulating ${options.toolVersion} as ${getBuiltinEditorTool(options.toolVersion).name}`,
+      );
+    }
+
+    if (options.transport === 'stdio') {
+      const server = createServer(options);
+
+      console.error('Initializing StdioServerTransport...');
+      const transport = new StdioServerTransport();
+
+      console.error('Connecting server to transport...');
+      await server.connect(transport);
+      onShutdownSignal(async () => {
+        await waitForPending(SHUTDOWN_TIMEOUT_MS);
+        await server.close();
+      });
+
+      console.error(
+        `${packageJson.name} MCP Server v${packageJson.version} running on stdio`,
+      );
+    } else {
+      if (!options.authToken) {
+        console.error(
+          'Warning: no auth token configured (--auth-token or TEXT_EDITOR_AUTH_TOKEN), any client that can reach the server can use it',
+        );
+      }
+      const httpServer = await startHttpServer({
+        transport: options.transport,
+        host: options.host,
+        port: options.port,
+        authToken: options.authToken,
+        createServer: () => createServer(options),
+        onSessionClosed: endSession,
+        drainTimeoutMs: SHUTDOWN_TIMEOUT_MS,
+      });
+      onShutdownSignal(() => httpServer.close());
+
+      console.error(
+        `${packageJson.name} MCP Server v${packageJson.version} running on ${
+          options.transport === 'http'
+            ? `${httpServer.url}${MCP_PATH} (Streamable HTTP)`
+            : `${httpServer.url}${SSE_PATH} (SSE)`
+        }`,
+      );
+    }
     console.error('Server ready to accept commands');
   } catch (error) {
     console.error('Error during server startup:', error);
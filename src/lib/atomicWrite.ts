@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Content to write: the data itself, or a function that writes it to the
+ * open file, for content too large to hold in memory.
+ */
+export type FileContent =
+  | string
+  | Buffer
+  | ((handle: fs.FileHandle) => Promise<void>);
+
+const tempPathFor = (filePath: string): string =>
+  path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`,
+  );
+
+/**
+ * Writes `content` to a temporary file next to `filePath` and flushes it to
+ * disk. When `filePath` already exists the temporary file gets its mode and,
+ * where the process is allowed to, its owner, so that renaming it over the
+ * target preserves both. Returns the temporary path.
+ */
+export async function stageFile(
+  filePath: string,
+  content: FileContent,
+): Promise<string> {
+  const existing = await fs.stat(filePath).catch(() => null);
+  const tempPath = tempPathFor(filePath);
+
+  const handle = await fs.open(tempPath, 'wx', existing?.mode ?? 0o666);
+  try {
+    if (typeof content === 'function') {
+      await content(handle);
+    } else {
+      await handle.writeFile(content);
+    }
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  await handle.close();
+
+  if (existing) {
+    // The mode passed to open() is filtered by the umask, set it explicitly
+    await fs.chmod(tempPath, existing.mode);
+    await fs.chown(tempPath, existing.uid, existing.gid).catch(() => {
+      // Only privileged processes can give files away, keep our ownership
+    });
+  }
+
+  return tempPath;
+}
+
+/**
+ * Replaces `filePath` atomically: readers see either the old or the new
+ * content, never a truncated file, even if the process crashes mid-write.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: FileContent,
+): Promise<void> {
+  const tempPath = await stageFile(filePath, content);
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { getSessionId } from './sessionContext.js';
+
+/**
+ * One command that changed files, as kept in the audit log and written to
+ * the audit log file.
+ */
+export type AuditEntry = {
+  /** ISO 8601 time the command completed. */
+  timestamp: string;
+  sessionId: string;
+  command: string;
+  /** The reason the client gave for the call. */
+  description?: string;
+  /** The path the command was called with. */
+  path: string;
+  /** Where `move` and `copy` put `path`. */
+  destination?: string;
+  /** Every file or directory the command created, changed or removed. */
+  files: string[];
+  /** Unified diff of the change, clipped like the one returned to the client. */
+  diff?: string;
+};
+
+// Entries kept in memory per session, the oldest go first
+const MAX_ENTRIES_PER_SESSION = 1000;
+
+let auditLogFile: string | undefined;
+const logs = new Map<string, AuditEntry[]>();
+
+/**
+ * Sets the file every entry is appended to as a line of JSON, across
+ * sessions and restarts. Without one, entries are only kept in memory.
+ */
+export function configureAuditLog(filePath?: string): void {
+  auditLogFile = filePath;
+  logs.clear();
+}
+
+/**
+ * Records a command of the current session that changed files. A failure to
+ * write the audit log file is reported but does not fail the command, which
+ * has already taken effect.
+ */
+export async function recordAuditEntry(
+  entry: Omit<AuditEntry, 'timestamp' | 'sessionId'>,
+): Promise<AuditEntry> {
+  const recorded: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    sessionId: getSessionId(),
+    ...entry,
+  };
+  const log = logs.get(recorded.sessionId) ?? [];
+  logs.set(recorded.sessionId, log);
+  log.push(recorded);
+  if (log.length > MAX_ENTRIES_PER_SESSION) {
+    log.shift();
+  }
+
+  if (auditLogFile) {
+    try {
+      await fs.mkdir(path.dirname(auditLogFile), { recursive: true });
+      await fs.appendFile(auditLogFile, `${JSON.stringify(recorded)}\n`);
+    } catch (error) {
+      console.error(`Error writing audit log ${auditLogFile}:`, error);
+    }
+  }
+  return recorded;
+}
+
+/**
+ * The entries of a session, oldest first; the current session by default.
+ */
+export function getAuditLog(sessionId: string = getSessionId()): AuditEntry[] {
+  return [...(logs.get(sessionId) ?? [])];
+}
+
+/**
+ * Drops the in-memory entries of a session. The audit log file keeps them.
+ */
+export function forgetAuditLog(sessionId: string): void {
+  logs.delete(sessionId);
+}
+
+/**
+ * Renders entries as JSON Lines, one entry per line.
+ */
+export function formatAuditLog(entries: AuditEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+}
@@ -0,0 +1,233 @@
+export type DiffOp = {
+  type: ' ' | '-' | '+';
+  /** The line including its `\n`, if it has one. */
+  line: string;
+};
+
+export type UnifiedDiffOptions = {
+  oldPath: string;
+  newPath: string;
+  /** Lines of unchanged context around each change (default 3). */
+  context?: number;
+  /**
+   * Line number of the first line of both texts, when they are an excerpt of
+   * a larger file (default 1).
+   */
+  firstLine?: number;
+};
+
+// Past this many differences the middle section is reported as replaced
+// wholesale, which keeps the O(D^2) trace of the Myers algorithm bounded
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Splits text into lines that keep their trailing `\n`, so a missing final
+ * newline is visible when lines are compared.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n').map((line) => `${line}\n`);
+  const last = lines.pop()!;
+  if (last !== '\n') {
+    lines.push(last.slice(0, -1));
+  }
+  return lines;
+}
+
+/**
+ * Counts the lines shared at the start and at the end of both arrays.
+ */
+const commonAffixes = (
+  a: string[],
+  b: string[],
+): { prefix: number; suffix: number } => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return { prefix, suffix };
+};
+
+/**
+ * Myers' O(ND) shortest edit script between two line arrays.
+ */
+const myersDiff = (a: string[], b: string[]): DiffOp[] | undefined => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let distance = -1;
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break search;
+      }
+    }
+  }
+
+  if (distance === -1) {
+    return undefined;
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d > 0; d--) {
+    const snapshot = trace[d];
+    const get = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: '+', line: b[--y] });
+    } else {
+      ops.push({ type: '-', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: ' ', line: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+};
+
+/**
+ * Computes a line-based edit script turning `oldText` into `newText`.
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Strip the common prefix and suffix, which is all most edits share
+  const { prefix, suffix } = commonAffixes(a, b);
+
+  const aMiddle = a.slice(prefix, a.length - suffix);
+  const bMiddle = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(aMiddle, bMiddle) ?? [
+    ...aMiddle.map((line): DiffOp => ({ type: '-', line })),
+    ...bMiddle.map((line): DiffOp => ({ type: '+', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+const formatOp = (op: DiffOp): string =>
+  op.line.endsWith('\n')
+    ? `${op.type}${op.line.slice(0, -1)}`
+    : `${op.type}${op.line}\n\\ No newline at end of file`;
+
+/**
+ * Renders a unified diff. Returns an empty string when the texts are equal.
+ * Pass `/dev/null` as a path to mark a created or deleted file.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  { oldPath, newPath, context = 3, firstLine = 1 }: UnifiedDiffOptions,
+): string {
+  const ops = diffLines(oldText, newText);
+  const changes = ops
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Line numbers before each op, in the old and the new text
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = firstLine - 1;
+  let newLine = firstLine - 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') {
+      oldLine++;
+    }
+    if (op.type !== '-') {
+      newLine++;
+    }
+  }
+
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+  let groupStart = 0;
+  while (groupStart < changes.length) {
+    // Extend the hunk while the next change is close enough to share context
+    let groupEnd = groupStart;
+    while (
+      groupEnd + 1 < changes.length &&
+      changes[groupEnd + 1] - changes[groupEnd] <= 2 * context + 1
+    ) {
+      groupEnd++;
+    }
+
+    const start = Math.max(0, changes[groupStart] - context);
+    const end = Math.min(ops.length, changes[groupEnd] + context + 1);
+    const hunkOps = ops.slice(start, end);
+    const oldCount = hunkOps.filter((op) => op.type !== '+').length;
+    const newCount = hunkOps.filter((op) => op.type !== '-').length;
+    const oldStart = oldLineAt[start] + (oldCount > 0 ? 1 : 0);
+    const newStart = newLineAt[start] + (newCount > 0 ? 1 : 0);
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunkOps.map(formatOp));
+    groupStart = groupEnd + 1;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Returns the 1-based line range of `newText` that differs from `oldText`,
+ * or `undefined` when nothing changed. A pure deletion yields an empty range
+ * positioned where the lines were removed (`start > end`).
+ */
+export function changedLineRange(
+  oldText: string,
+  newText: string,
+): { start: number; end: number } | undefined {
+  if (oldText === newText) {
+    return undefined;
+  }
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const { prefix, suffix } = commonAffixes(a, b);
+  return { start: prefix + 1, end: b.length - suffix };
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs/promises';
+
+import { walkDirectory, WalkEntry, WalkOptions } from './fileWalker.js';
+
+export type DirectoryTreeOptions = WalkOptions & {
+  /** Maximum length of the rendered tree in characters. */
+  outputLimit: number;
+};
+
+export type DirectoryTree = {
+  text: string;
+  /** Entries rendered in `text`. */
+  shown: number;
+  /** Entries left out to stay within the output limit. */
+  omitted: number;
+};
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export function formatSize(bytes: number): string {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0
+    ? `${size} ${SIZE_UNITS[unit]}`
+    : `${size.toFixed(1)} ${SIZE_UNITS[unit]}`;
+}
+
+const describeEntry = async (entry: WalkEntry): Promise<string> => {
+  const name = entry.relativePath.split('/').pop()!;
+  switch (entry.type) {
+    case 'directory':
+      return `${name}/`;
+    case 'symlink': {
+      const target = await fs.readlink(entry.path).catch(() => '?');
+      return `${name} -> ${target}`;
+    }
+    case 'file':
+      return `${name} (${formatSize(entry.size)})`;
+    default:
+      return name;
+  }
+};
+
+/**
+ * Renders a directory as an indented tree, directories marked with a
+ * trailing `/` and files with their size. Once the output limit is reached
+ * the remaining entries are only counted.
+ */
+export async function renderDirectoryTree(
+  root: string,
+  { outputLimit, ...walkOptions }: DirectoryTreeOptions,
+): Promise<DirectoryTree> {
+  const lines = [`${root.replace(/\/+$/, '')}/`];
+  let length = lines[0].length;
+  let shown = 0;
+  let omitted = 0;
+  // Whether the ancestor at each depth was the last of its siblings
+  const lastAtDepth: boolean[] = [];
+
+  for await (const entry of walkDirectory(root, walkOptions)) {
+    if (omitted > 0) {
+      omitted++;
+      continue;
+    }
+
+    lastAtDepth[entry.depth] = entry.isLast;
+    let prefix = '';
+    for (let depth = 1; depth < entry.depth; depth++) {
+      prefix += lastAtDepth[depth] ? '    ' : '│   ';
+    }
+    prefix += entry.isLast ? '└── ' : '├── ';
+
+    const line = `${prefix}${await describeEntry(entry)}`;
+    if (length + line.length + 1 > outputLimit) {
+      omitted++;
+      continue;
+    }
+    lines.push(line);
+    length += line.length + 1;
+    shown++;
+  }
+
+  if (omitted > 0) {
+    lines.push(`<${omitted} more entries omitted>`);
+  }
+  return { text: lines.join('\n'), shown, omitted };
+}
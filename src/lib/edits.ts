@@ -0,0 +1,366 @@
+/**
+ * Pure content transformations shared by the editing commands. They validate
+ * their input against the given content and throw without side effects, so
+ * callers can check a whole batch of edits before anything is written.
+ */
+
+import {
+  adaptReplacement,
+  findClosestRegions,
+  findWhitespaceInsensitiveMatches,
+  formatCandidateRegions,
+} from './fuzzyMatch.js';
+import {
+  convertLineEndings,
+  detectLineEndings,
+  matchLineEndings,
+} from './lineEndings.js';
+
+export type StrReplaceEdit = {
+  old_str: string;
+  new_str?: string;
+};
+
+export type ReplaceMode = {
+  /** Treat `old_str` as a regular expression and expand `$1` in `new_str`. */
+  regex?: boolean;
+  /** Replace every match instead of requiring exactly one. */
+  replace_all?: boolean;
+  /** Replace only the n-th match (1-based). */
+  occurrence?: number;
+};
+
+export type ReplaceResult = {
+  content: string;
+  /** 1-based line of the new content where each replacement starts. */
+  lines: number[];
+  /** Set when `old_str` only matched after normalizing whitespace. */
+  fuzzy?: boolean;
+};
+
+type Match = { index: number; text: string; groups: RegExpMatchArray | null };
+
+const findMatches = (
+  content: string,
+  oldStr: string,
+  regex: boolean,
+): Match[] => {
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      // Multiline so that ^ and $ match at line boundaries
+      pattern = new RegExp(oldStr, 'gm');
+    } catch (error) {
+      throw new Error(
+        `Invalid regular expression in old_str: ${(error as Error).message}`,
+      );
+    }
+    return [...content.matchAll(pattern)].map((match) => ({
+      index: match.index!,
+      text: match[0],
+      groups: match,
+    }));
+  }
+
+  const matches: Match[] = [];
+  for (
+    let index = content.indexOf(oldStr);
+    index !== -1;
+    index = content.indexOf(oldStr, index + oldStr.length)
+  ) {
+    matches.push({ index, text: oldStr, groups: null });
+  }
+  return matches;
+};
+
+/**
+ * Expands `$$`, `$&`, `$1`..`$99` and `$<name>` in a regex replacement the
+ * way `String.prototype.replace` does.
+ */
+const expandReplacement = (template: string, match: RegExpMatchArray) =>
+  template.replace(
+    /\$(\$|&|<([^>]*)>|(\d{1,2}))/g,
+    (token, kind: string, name?: string, digits?: string) => {
+      if (kind === '$') {
+        return '$';
+      }
+      if (kind === '&') {
+        return match[0];
+      }
+      if (name !== undefined) {
+        return match.groups?.[name] ?? '';
+      }
+      // Prefer a two-digit group, fall back to one digit plus a literal
+      const number = Number(digits);
+      if (number > 0 && number < match.length) {
+        return match[number] ?? '';
+      }
+      const single = Number(digits![0]);
+      if (digits!.length === 2 && single > 0 && single < match.length) {
+        return `${match[single] ?? ''}${digits![1]}`;
+      }
+      return token;
+    },
+  );
+
+const lineAt = (content: string, index: number): number =>
+  content.slice(0, index).split('\n').length;
+
+const notFoundMessage = (content: string, oldStr: string): string => {
+  const regions = findClosestRegions(content, oldStr);
+  return regions.length > 0
+    ? `The specified old_str was not found in the file. Closest matches:\n${formatCandidateRegions(content, regions)}`
+    : `The specified old_str was not found in the file`;
+};
+
+/**
+ * Fallback for a literal `old_str` that is not in the file verbatim: accepts
+ * a single match that differs only in whitespace, indentation or line
+ * endings, and re-indents `newStr` to the indentation found.
+ */
+const replaceWhitespaceInsensitive = (
+  content: string,
+  oldStr: string,
+  newStr: string,
+): ReplaceResult => {
+  const matches = findWhitespaceInsensitiveMatches(content, oldStr);
+  if (matches.length === 0) {
+    throw new Error(notFoundMessage(content, oldStr));
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `The specified old_str was not found in the file. Ignoring whitespace it matches ${matches.length} places (lines ${matches.map((match) => lineAt(content, match.index)).join(', ')}), expected exactly 1. Add more context to make it unique.`,
+    );
+  }
+
+  const [{ index, text }] = matches;
+  const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+  const replacement = adaptReplacement(
+    newStr,
+    oldStr,
+    content.slice(lineStart, index + text.length),
+    content.includes('\r\n') ? '\r\n' : '\n',
+  );
+
+  return {
+    content:
+      content.slice(0, index) +
+      replacement +
+      content.slice(index + text.length),
+    lines: [lineAt(content, index)],
+    fuzzy: true,
+  };
+};
+
+/**
+ * Replaces matches of `oldStr` in `content`. By default `oldStr` must match
+ * exactly once; `replace_all` replaces every match and `occurrence` only the
+ * n-th one. Reports the line of each replacement. A literal `oldStr` that
+ * is expected to match once and is not found verbatim falls back to a
+ * whitespace-insensitive match.
+ */
+export function replaceMatches(
+  content: string,
+  oldStr: string,
+  newStr = '',
+  { regex = false, replace_all = false, occurrence }: ReplaceMode = {},
+): ReplaceResult {
+  if (replace_all && occurrence !== undefined) {
+    throw new Error('replace_all and occurrence cannot be used together');
+  }
+  if (occurrence !== undefined && occurrence < 1) {
+    throw new Error(`Invalid occurrence: ${occurrence}. Must be 1 or greater.`);
+  }
+
+  // A CRLF file still matches an old_str written with plain `\n`
+  const target =
+    !regex && detectLineEndings(content) === 'crlf'
+      ? convertLineEndings(oldStr, 'crlf')
+      : oldStr;
+
+  const matches = findMatches(content, target, regex);
+  if (matches.length === 0) {
+    if (!regex && !replace_all && occurrence === undefined) {
+      return replaceWhitespaceInsensitive(content, oldStr, newStr);
+    }
+    throw new Error(
+      regex
+        ? `The specified old_str pattern did not match the file`
+        : notFoundMessage(content, oldStr),
+    );
+  }
+
+  let selected = matches;
+  if (occurrence !== undefined) {
+    if (occurrence > matches.length) {
+      throw new Error(
+        `Found ${matches.length} occurrences of old_str, occurrence ${occurrence} does not exist`,
+      );
+    }
+    selected = [matches[occurrence - 1]];
+  } else if (!replace_all && matches.length > 1) {
+    throw new Error(
+      `Found ${matches.length} occurrences of old_str, expected exactly 1. Add more context to make it unique, or pass replace_all: true or occurrence: n.`,
+    );
+  }
+
+  let output = '';
+  let line = 1;
+  let consumed = 0;
+  const lines: number[] = [];
+  for (const match of selected) {
+    const before = content.slice(consumed, match.index);
+    line += before.split('\n').length - 1;
+    lines.push(line);
+
+    const replacement = match.groups
+      ? expandReplacement(newStr, match.groups)
+      : newStr;
+    output += before + replacement;
+    line += replacement.split('\n').length - 1;
+    consumed = match.index + match.text.length;
+  }
+  output += content.slice(consumed);
+
+  return { content: output, lines };
+}
+
+export type StrReplaceEditsResult = {
+  content: string;
+  /** 1-based numbers of the edits whose `old_str` only matched fuzzily. */
+  fuzzyEdits: number[];
+};
+
+/**
+ * Applies an ordered list of replacements, each one matched against the
+ * result of the previous ones. Errors name the failing edit (1-based).
+ */
+export function applyStrReplaceEdits(
+  content: string,
+  edits: StrReplaceEdit[],
+): StrReplaceEditsResult {
+  const fuzzyEdits: number[] = [];
+  const updated = edits.reduce((current, edit, index) => {
+    if (!edit.old_str) {
+      throw new Error(
+        `Edit #${index + 1} of ${edits.length} failed: old_str is required`,
+      );
+    }
+    try {
+      const replaced = replaceMatches(current, edit.old_str, edit.new_str);
+      if (replaced.fuzzy) {
+        fuzzyEdits.push(index + 1);
+      }
+      return matchLineEndings(current, replaced.content);
+    } catch (error) {
+      throw new Error(
+        `Edit #${index + 1} of ${edits.length} failed: ${(error as Error).message}`,
+      );
+    }
+  }, content);
+  return { content: updated, fuzzyEdits };
+}
+
+/**
+ * Inserts `newStr` after line `insertLine` (0 inserts at the top).
+ */
+export function insertAtLine(
+  content: string,
+  insertLine: number,
+  newStr: string,
+): string {
+  const lines = content.split('\n');
+
+  // Validate line number
+  if (insertLine < 0 || insertLine > lines.length) {
+    throw new Error(
+      `Invalid line number: ${insertLine}. File has ${lines.length} lines.`,
+    );
+  }
+
+  lines.splice(insertLine, 0, newStr);
+  return lines.join('\n');
+}
+
+export type FileEdit = ReplaceMode & {
+  command: 'create' | 'str_replace' | 'insert';
+  file_text?: string;
+  old_str?: string;
+  new_str?: string;
+  insert_line?: number;
+};
+
+export type FileEditResult = {
+  content: string;
+  /** Lines of the replacements made by `str_replace`. */
+  replacedLines?: number[];
+  /** Whether `str_replace` fell back to whitespace-insensitive matching. */
+  fuzzy?: boolean;
+};
+
+/**
+ * Validates a `create`, `str_replace` or `insert` command against the current
+ * content of `filePath` (`null` when the file does not exist) and returns the
+ * content the file should have afterwards.
+ */
+export function applyFileEdit(
+  filePath: string,
+  content: string | null,
+  edit: FileEdit,
+): FileEditResult {
+  switch (edit.command) {
+    case 'create': {
+      if (!edit.file_text) {
+        throw new Error('file_text parameter is required for create command');
+      }
+      return {
+        content:
+          content === null
+            ? edit.file_text
+            : matchLineEndings(content, edit.file_text),
+      };
+    }
+
+    case 'str_replace': {
+      if (!edit.old_str) {
+        throw new Error(
+          'old_str parameter is required for str_replace command',
+        );
+      }
+      if (content === null) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      const {
+        content: replaced,
+        lines,
+        fuzzy,
+      } = replaceMatches(content, edit.old_str, edit.new_str, edit);
+      return {
+        content: matchLineEndings(content, replaced),
+        replacedLines: lines,
+        fuzzy,
+      };
+    }
+
+    case 'insert': {
+      if (edit.insert_line === undefined) {
+        throw new Error('insert_line parameter is required for insert command');
+      }
+      if (!edit.new_str) {
+        throw new Error('new_str parameter is required for insert command');
+      }
+      if (content === null) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      return {
+        content: matchLineEndings(
+          content,
+          insertAtLine(content, edit.insert_line, edit.new_str),
+        ),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown command: ${(edit as FileEdit).command}`);
+  }
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Text encodings the editor can read and write. `utf8-bom` is UTF-8 with a
+ * byte order mark; the UTF-16 variants are always written with one.
+ */
+export const TEXT_ENCODINGS = [
+  'utf8',
+  'utf8-bom',
+  'utf16le',
+  'utf16be',
+  'latin1',
+] as const;
+
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number];
+
+export type DecodedText = {
+  content: string;
+  encoding: TextEncoding;
+};
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+
+const strictUtf8 = new TextDecoder('utf-8', { fatal: true });
+
+const isValidUtf8 = (buffer: Buffer): boolean => {
+  try {
+    strictUtf8.decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const swapBytes = (buffer: Buffer): Buffer => {
+  const copy = Buffer.from(
+    buffer.subarray(0, buffer.length - (buffer.length % 2)),
+  );
+  return copy.swap16();
+};
+
+/**
+ * Detects the encoding of file content from its byte order mark, falling
+ * back to UTF-8 when the bytes are valid UTF-8 and to Latin-1 otherwise.
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+    return 'utf8-bom';
+  }
+  if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) {
+    return 'utf16le';
+  }
+  if (buffer.subarray(0, 2).equals(UTF16BE_BOM)) {
+    return 'utf16be';
+  }
+  return isValidUtf8(buffer) ? 'utf8' : 'latin1';
+}
+
+/**
+ * Decodes file content, detecting its encoding. The byte order mark is not
+ * part of the returned content.
+ */
+export function decodeText(buffer: Buffer): DecodedText {
+  const encoding = detectEncoding(buffer);
+  switch (encoding) {
+    case 'utf8-bom':
+      return { content: buffer.subarray(3).toString('utf8'), encoding };
+    case 'utf16le':
+      return { content: buffer.subarray(2).toString('utf16le'), encoding };
+    case 'utf16be':
+      return {
+        content: swapBytes(buffer.subarray(2)).toString('utf16le'),
+        encoding,
+      };
+    default:
+      return { content: buffer.toString(encoding), encoding };
+  }
+}
+
+/**
+ * Encodes text in the given encoding, adding its byte order mark if it has
+ * one. Characters Latin-1 cannot represent are refused rather than mangled.
+ */
+export function encodeText(content: string, encoding: TextEncoding): Buffer {
+  switch (encoding) {
+    case 'utf8':
+      return Buffer.from(content, 'utf8');
+    case 'utf8-bom':
+      return Buffer.concat([UTF8_BOM, Buffer.from(content, 'utf8')]);
+    case 'utf16le':
+      return Buffer.concat([UTF16LE_BOM, Buffer.from(content, 'utf16le')]);
+    case 'utf16be':
+      return Buffer.concat([
+        UTF16BE_BOM,
+        swapBytes(Buffer.from(content, 'utf16le')),
+      ]);
+    case 'latin1': {
+      const unsupported = /[\u0100-\u{10ffff}]/u.exec(content);
+      if (unsupported) {
+        throw new Error(
+          `Cannot encode "${unsupported[0]}" (U+${unsupported[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}) in latin1. Use characters the file's encoding supports, or recreate the file with another encoding.`,
+        );
+      }
+      return Buffer.from(content, 'latin1');
+    }
+  }
+}
+
+export async function readTextFile(filePath: string): Promise<DecodedText> {
+  return decodeText(await fs.readFile(filePath));
+}
+
+/**
+ * Like `readTextFile`, but resolves to `null` if the file does not exist.
+ */
+export async function readTextFileIfExists(
+  filePath: string,
+): Promise<DecodedText | null> {
+  const buffer = await fs
+    .readFile(filePath)
+    .catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    });
+  return buffer === null ? null : decodeText(buffer);
+}
+
+/**
+ * Encodes new content for `filePath`: in `encoding` if given, otherwise in
+ * the encoding the file currently has, or UTF-8 for new files.
+ */
+export async function encodeForFile(
+  filePath: string,
+  content: string,
+  encoding?: TextEncoding,
+): Promise<Buffer> {
+  const existing = encoding
+    ? undefined
+    : await fs.readFile(filePath).catch(() => null);
+  return encodeText(
+    content,
+    encoding ?? (existing ? detectEncoding(existing) : 'utf8'),
+  );
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { DecodedText, decodeText, encodeText } from './encoding.js';
+
+/**
+ * Lists every file under `dir`, hidden ones included, sorted by path.
+ * Symbolic links are refused, since their targets would not be restored by
+ * undoing an operation on the directory.
+ */
+export async function listFilesRecursive(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isSymbolicLink()) {
+        throw new Error(
+          `${dir} contains a symbolic link (${entryPath}), which cannot be restored`,
+        );
+      }
+      if (entry.isDirectory()) {
+        await visit(entryPath);
+      } else {
+        files.push(entryPath);
+      }
+    }
+  };
+  await visit(dir);
+  return files.sort();
+}
+
+/**
+ * Lists `dir` and every directory below it, each parent before its
+ * children.
+ */
+export async function listDirectoriesRecursive(dir: string): Promise<string[]> {
+  const directories = [dir];
+  const visit = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        const entryPath = path.join(current, entry.name);
+        directories.push(entryPath);
+        await visit(entryPath);
+      }
+    }
+  };
+  await visit(dir);
+  return directories.sort();
+}
+
+/**
+ * Reads a file as text for the edit history, making sure that writing the
+ * text back in its encoding gives the same bytes. Binary files round-trip
+ * through Latin-1; UTF-16 files with an odd number of bytes do not.
+ */
+export async function readRestorableFile(
+  filePath: string,
+): Promise<DecodedText> {
+  const buffer = await fs.readFile(filePath);
+  const decoded = decodeText(buffer);
+  if (!encodeText(decoded.content, decoded.encoding).equals(buffer)) {
+    throw new Error(
+      `${filePath} is not valid ${decoded.encoding} and could not be restored by undo_edit`,
+    );
+  }
+  return decoded;
+}
+
+/**
+ * Moves a file or directory, creating the destination's parent directories.
+ * Falls back to copying and removing when the destination is on another
+ * file system.
+ */
+export async function movePath(
+  source: string,
+  destination: string,
+): Promise<void> {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  try {
+    await fs.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(source, destination, { recursive: true, force: true });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Copies a file or directory, creating the destination's parent directories.
+ * Existing files at the destination are replaced.
+ */
+export async function copyPath(
+  source: string,
+  destination: string,
+): Promise<void> {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  await fs.cp(source, destination, { recursive: true, force: true });
+}
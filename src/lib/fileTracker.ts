@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+
+import { getSessionId } from './sessionContext.js';
+
+export type SeenFileState = {
+  hash: string;
+  mtimeMs: number;
+};
+
+// Last content the agent saw through `view` (or its own later edits), per
+// session and file
+const seenFilesBySession = new Map<string, Map<string, SeenFileState>>();
+
+const getSeenFiles = (): Map<string, SeenFileState> => {
+  const sessionId = getSessionId();
+  let seenFiles = seenFilesBySession.get(sessionId);
+  if (!seenFiles) {
+    seenFiles = new Map();
+    seenFilesBySession.set(sessionId, seenFiles);
+  }
+  return seenFiles;
+};
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Remembers the state of a file the agent has just viewed.
+ */
+export function recordSeenFile(
+  filePath: string,
+  content: string | Buffer,
+  mtimeMs: number,
+): SeenFileState {
+  return recordSeenHash(filePath, hashContent(content), mtimeMs);
+}
+
+/**
+ * Like `recordSeenFile`, for content that was hashed while streaming it.
+ */
+export function recordSeenHash(
+  filePath: string,
+  hash: string,
+  mtimeMs: number,
+): SeenFileState {
+  const state = { hash, mtimeMs };
+  getSeenFiles().set(filePath, state);
+  return state;
+}
+
+/**
+ * Refreshes the state of a file the agent has viewed after it was written
+ * through the editor. Files that were never viewed stay untracked.
+ */
+export function updateSeenFile(
+  filePath: string,
+  content: string | Buffer,
+  mtimeMs: number,
+): string {
+  return updateSeenHash(filePath, hashContent(content), mtimeMs);
+}
+
+/**
+ * Like `updateSeenFile`, for content that was hashed while streaming it.
+ */
+export function updateSeenHash(
+  filePath: string,
+  hash: string,
+  mtimeMs: number,
+): string {
+  const seenFiles = getSeenFiles();
+  if (seenFiles.has(filePath)) {
+    seenFiles.set(filePath, { hash, mtimeMs });
+  }
+  return hash;
+}
+
+export function forgetSeenFile(filePath: string): void {
+  getSeenFiles().delete(filePath);
+}
+
+/**
+ * Number of files a session has viewed and not forgotten since.
+ */
+export function countSeenFiles(sessionId: string): number {
+  return seenFilesBySession.get(sessionId)?.size ?? 0;
+}
+
+/**
+ * Forgets every file a session has viewed.
+ */
+export function forgetSession(sessionId: string): void {
+  seenFilesBySession.delete(sessionId);
+}
+
+/**
+ * Throws a conflict error if the file about to be edited is not the one the
+ * agent based its edit on. With `expectedHash` the current content must have
+ * that hash. Without it the content must still match what was last viewed;
+ * files that were never viewed are not checked.
+ */
+export function assertNoConflict(
+  filePath: string,
+  currentContent: string | Buffer,
+  expectedHash?: string,
+): void {
+  assertHashUnchanged(filePath, hashContent(currentContent), expectedHash);
+}
+
+/**
+ * Like `assertNoConflict`, given the hash of the current content.
+ */
+export function assertHashUnchanged(
+  filePath: string,
+  currentHash: string,
+  expectedHash?: string,
+): void {
+  if (expectedHash !== undefined) {
+    if (currentHash !== expectedHash) {
+      throw new Error(
+        `Conflict: ${filePath} does not match expected_hash ${expectedHash} (current hash ${currentHash}). View the file again before editing it.`,
+      );
+    }
+    return;
+  }
+
+  const seen = getSeenFiles().get(filePath);
+  if (seen && seen.hash !== currentHash) {
+    throw new Error(
+      `Conflict: ${filePath} was modified externally since it was last viewed (viewed hash ${seen.hash}, current hash ${currentHash}). View the file again, or pass expected_hash: "${currentHash}" to edit the current content anyway.`,
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { stageFile, writeFileAtomic } from './atomicWrite.js';
+
+export type FileChange = {
+  path: string;
+  /** New file content, `null` deletes the file. */
+  content: string | Buffer | null;
+};
+
+const readIfExists = async (filePath: string): Promise<Buffer | null> =>
+  fs.readFile(filePath).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  });
+
+/**
+ * Applies a set of file changes all-or-nothing. New contents are first staged
+ * to temporary files next to their targets, then renamed into place. If any
+ * step fails, files that were already replaced are restored to their previous
+ * content (or removed if they did not exist) and the error is rethrown.
+ */
+export async function commitFileChanges(changes: FileChange[]): Promise<void> {
+  const staged: { change: FileChange; tempPath: string | null }[] = [];
+
+  const removeStaged = async () => {
+    await Promise.all(
+      staged.map(({ tempPath }) =>
+        tempPath ? fs.rm(tempPath, { force: true }) : undefined,
+      ),
+    );
+  };
+
+  // Stage every new content before touching any target
+  try {
+    for (const change of changes) {
+      if (change.content === null) {
+        staged.push({ change, tempPath: null });
+        continue;
+      }
+      await fs.mkdir(path.dirname(change.path), { recursive: true });
+      staged.push({
+        change,
+        tempPath: await stageFile(change.path, change.content),
+      });
+    }
+  } catch (error) {
+    await removeStaged();
+    throw new Error(
+      `Failed to stage changes: ${(error as Error).message}. No files were modified.`,
+    );
+  }
+
+  const applied: { path: string; backup: Buffer | null }[] = [];
+  try {
+    for (const { change, tempPath } of staged) {
+      const backup = await readIfExists(change.path);
+      if (tempPath) {
+        await fs.rename(tempPath, change.path);
+      } else {
+        await fs.rm(change.path, { force: true });
+      }
+      applied.push({ path: change.path, backup });
+    }
+  } catch (error) {
+    // Roll back in reverse order so repeated paths end at their first backup
+    for (const { path: appliedPath, backup } of applied.reverse()) {
+      try {
+        if (backup === null) {
+          await fs.rm(appliedPath, { force: true });
+        } else {
+          await writeFileAtomic(appliedPath, backup);
+        }
+      } catch (rollbackError) {
+        console.error(`Failed to roll back ${appliedPath}:`, rollbackError);
+      }
+    }
+    await removeStaged();
+    throw new Error(
+      `Failed to commit changes: ${(error as Error).message}. All changes were rolled back.`,
+    );
+  }
+}
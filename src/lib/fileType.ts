@@ -0,0 +1,261 @@
+import * as path from 'path';
+
+export type FileType =
+  | { kind: 'text' }
+  | { kind: 'image'; mimeType: string; description: string }
+  | { kind: 'pdf'; mimeType: string; description: string }
+  | { kind: 'binary'; mimeType: string; description: string };
+
+type Signature = {
+  bytes: (number | null)[];
+  kind: 'image' | 'pdf' | 'binary';
+  mimeType: string;
+  description: string;
+};
+
+// Bytes inspected for NUL characters to tell binary files apart
+const BINARY_SNIFF_BYTES = 8000;
+// Bytes shown in the hex preview of a binary file
+export const HEX_PREVIEW_BYTES = 256;
+
+const ascii = (text: string): number[] =>
+  [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * Magic numbers of common binary formats; `null` matches any byte. Only the
+ * image types MCP clients can display are reported as images.
+ */
+const SIGNATURES: Signature[] = [
+  {
+    bytes: [0x89, ...ascii('PNG\r\n'), 0x1a, 0x0a],
+    kind: 'image',
+    mimeType: 'image/png',
+    description: 'PNG image',
+  },
+  {
+    bytes: [0xff, 0xd8, 0xff],
+    kind: 'image',
+    mimeType: 'image/jpeg',
+    description: 'JPEG image',
+  },
+  {
+    bytes: ascii('GIF8'),
+    kind: 'image',
+    mimeType: 'image/gif',
+    description: 'GIF image',
+  },
+  {
+    bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WEBP')],
+    kind: 'image',
+    mimeType: 'image/webp',
+    description: 'WebP image',
+  },
+  {
+    bytes: ascii('%PDF-'),
+    kind: 'pdf',
+    mimeType: 'application/pdf',
+    description: 'PDF document',
+  },
+  {
+    bytes: [0x7f, ...ascii('ELF')],
+    kind: 'binary',
+    mimeType: 'application/x-executable',
+    description: 'ELF executable',
+  },
+  {
+    bytes: [0xcf, 0xfa, 0xed, 0xfe],
+    kind: 'binary',
+    mimeType: 'application/x-mach-binary',
+    description: 'Mach-O executable',
+  },
+  {
+    bytes: [0xce, 0xfa, 0xed, 0xfe],
+    kind: 'binary',
+    mimeType: 'application/x-mach-binary',
+    description: 'Mach-O executable',
+  },
+  {
+    bytes: [0x00, ...ascii('asm')],
+    kind: 'binary',
+    mimeType: 'application/wasm',
+    description: 'WebAssembly module',
+  },
+  {
+    bytes: ascii('SQLite format 3'),
+    kind: 'binary',
+    mimeType: 'application/vnd.sqlite3',
+    description: 'SQLite database',
+  },
+  {
+    bytes: [...ascii('PK'), 0x03, 0x04],
+    kind: 'binary',
+    mimeType: 'application/zip',
+    description: 'ZIP archive',
+  },
+  {
+    bytes: [0x1f, 0x8b],
+    kind: 'binary',
+    mimeType: 'application/gzip',
+    description: 'gzip archive',
+  },
+  {
+    bytes: ascii('MZ'),
+    kind: 'binary',
+    mimeType: 'application/vnd.microsoft.portable-executable',
+    description: 'Windows executable',
+  },
+  {
+    bytes: ascii('BM'),
+    kind: 'binary',
+    mimeType: 'image/bmp',
+    description: 'BMP image',
+  },
+];
+
+// Signatures this short also start ordinary text, so they only count for
+// content that is binary anyway
+const WEAK_SIGNATURE_LENGTH = 2;
+
+const hasUtf16Bom = (buffer: Buffer): boolean =>
+  (buffer[0] === 0xff && buffer[1] === 0xfe) ||
+  (buffer[0] === 0xfe && buffer[1] === 0xff);
+
+const matchesSignature = (buffer: Buffer, signature: Signature): boolean =>
+  buffer.length >= signature.bytes.length &&
+  signature.bytes.every(
+    (byte, index) => byte === null || buffer[index] === byte,
+  );
+
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Tells text files apart from images, PDFs and other binary files, by magic
+ * number first and by the presence of NUL bytes otherwise. UTF-16 text with
+ * a byte order mark is text.
+ */
+export function detectFileType(buffer: Buffer): FileType {
+  const binary = !hasUtf16Bom(buffer) && isBinaryContent(buffer);
+  const signature = SIGNATURES.find(
+    (candidate) =>
+      (binary || candidate.bytes.length > WEAK_SIGNATURE_LENGTH) &&
+      matchesSignature(buffer, candidate),
+  );
+  if (signature) {
+    const { kind, mimeType, description } = signature;
+    return { kind, mimeType, description };
+  }
+  return binary
+    ? {
+        kind: 'binary',
+        mimeType: 'application/octet-stream',
+        description: 'binary data',
+      }
+    : { kind: 'text' };
+}
+
+/**
+ * Renders the first bytes of a buffer like `xxd`: offset, sixteen bytes in
+ * hex and their printable ASCII characters.
+ */
+export function formatHexDump(
+  buffer: Buffer,
+  length: number = HEX_PREVIEW_BYTES,
+): string {
+  const rows: string[] = [];
+  const bytes = buffer.subarray(0, length);
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = [...row]
+      .map(
+        (byte, index) =>
+          (index % 2 === 1 ? '' : ' ') + byte.toString(16).padStart(2, '0'),
+      )
+      .join('')
+      .trimStart()
+      .padEnd(39);
+    const text = [...row]
+      .map((byte) =>
+        byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.',
+      )
+      .join('');
+    rows.push(`${offset.toString(16).padStart(8, '0')}: ${hex}  ${text}`);
+  }
+  return rows.join('\n');
+}
+
+/**
+ * MIME types of common file extensions, used where the content alone does
+ * not tell, such as for source code.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.mts': 'text/x-typescript',
+  '.cts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.sh': 'application/x-sh',
+  '.py': 'text/x-python',
+  '.rb': 'text/x-ruby',
+  '.rs': 'text/x-rust',
+  '.go': 'text/x-go',
+  '.java': 'text/x-java',
+  '.c': 'text/x-c',
+  '.h': 'text/x-c',
+  '.cpp': 'text/x-c++',
+  '.hpp': 'text/x-c++',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Guesses the MIME type of a file from its extension. Returns `undefined`
+ * for extensions without a known type.
+ */
+export function mimeTypeFromExtension(filePath: string): string | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return Object.hasOwn(EXTENSION_MIME_TYPES, extension)
+    ? EXTENSION_MIME_TYPES[extension]
+    : undefined;
+}
+
+/**
+ * Tells the MIME type of file content: the type its magic number gives,
+ * otherwise the one of its extension, and `text/plain` or
+ * `application/octet-stream` for text and binary files of unknown type.
+ */
+export function detectMimeType(filePath: string, buffer: Buffer): string {
+  const fileType = detectFileType(buffer);
+  if (fileType.kind === 'text') {
+    return mimeTypeFromExtension(filePath) ?? 'text/plain';
+  }
+  return fileType.mimeType === 'application/octet-stream'
+    ? (mimeTypeFromExtension(filePath) ?? fileType.mimeType)
+    : fileType.mimeType;
+}
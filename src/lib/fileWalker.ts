@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {
+  IgnoreRules,
+  isIgnored,
+  loadIgnoreRules,
+  withDirectoryRules,
+} from './gitignore.js';
+import { toPosixPath } from './glob.js';
+import { isDeniedPath } from './pathPolicy.js';
+
+export type WalkEntry = {
+  path: string;
+  /** `/`-separated path relative to the walk root. */
+  relativePath: string;
+  /** 1 for the direct children of the root. */
+  depth: number;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  mtimeMs: number;
+  /** Whether this is the last entry listed in its directory. */
+  isLast: boolean;
+};
+
+export type WalkOptions = {
+  /** How many levels below the root to descend (default unlimited). */
+  maxDepth?: number;
+  /** List entries whose name starts with a dot (default false). */
+  includeHidden?: boolean;
+  /** Skip entries excluded by `.gitignore` files (default true). */
+  respectGitignore?: boolean;
+};
+
+const entryType = (stats: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): WalkEntry['type'] => {
+  if (stats.isSymbolicLink()) {
+    return 'symlink';
+  }
+  if (stats.isDirectory()) {
+    return 'directory';
+  }
+  return stats.isFile() ? 'file' : 'other';
+};
+
+/**
+ * Walks a directory depth-first, yielding directories before their contents
+ * and, within a directory, subdirectories first and then files, each sorted
+ * by name. Symbolic links are reported but never followed, `.git` is always
+ * skipped, and so are paths denied by the workspace policy. Directories that
+ * cannot be read are listed without contents.
+ */
+export async function* walkDirectory(
+  root: string,
+  {
+    maxDepth = Infinity,
+    includeHidden = false,
+    respectGitignore = true,
+  }: WalkOptions = {},
+): AsyncGenerator<WalkEntry> {
+  const rootRules = respectGitignore ? await loadIgnoreRules(root) : [];
+
+  async function* walk(
+    dir: string,
+    depth: number,
+    ignoreRules: IgnoreRules[],
+  ): AsyncGenerator<WalkEntry> {
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    const entries: Omit<WalkEntry, 'isLast'>[] = [];
+    for (const name of names) {
+      if (name === '.git' || (!includeHidden && name.startsWith('.'))) {
+        continue;
+      }
+      const entryPath = path.join(dir, name);
+      const stats = await fs.lstat(entryPath).catch(() => null);
+      if (!stats) {
+        continue;
+      }
+      const type = entryType(stats);
+      if (
+        isDeniedPath(entryPath) ||
+        (respectGitignore &&
+          isIgnored(ignoreRules, entryPath, type === 'directory'))
+      ) {
+        continue;
+      }
+      entries.push({
+        path: entryPath,
+        relativePath: toPosixPath(path.relative(root, entryPath)),
+        depth,
+        type,
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+      });
+    }
+
+    entries.sort(
+      (a, b) =>
+        Number(b.type === 'directory') - Number(a.type === 'directory') ||
+        (a.relativePath < b.relativePath ? -1 : 1),
+    );
+
+    for (const [index, entry] of entries.entries()) {
+      yield { ...entry, isLast: index === entries.length - 1 };
+      if (entry.type === 'directory' && depth < maxDepth) {
+        yield* walk(
+          entry.path,
+          depth + 1,
+          respectGitignore
+            ? await withDirectoryRules(ignoreRules, entry.path)
+            : ignoreRules,
+        );
+      }
+    }
+  }
+
+  yield* walk(root, 1, rootRules);
+}
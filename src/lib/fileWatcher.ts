@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+type Listener = () => void;
+
+type DirectoryWatch = {
+  watcher: fs.FSWatcher;
+  /** Watched files of the directory. */
+  files: Set<string>;
+};
+
+// Changes to a file within this window are reported once
+const DEBOUNCE_MS = 50;
+
+const listeners = new Map<string, Set<Listener>>();
+const directoryWatches = new Map<string, DirectoryWatch>();
+const pendingChanges = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Tells the listeners of a file that it changed, once for a burst of
+ * changes.
+ */
+export function notifyFileChanged(filePath: string): void {
+  if (!listeners.has(filePath) || pendingChanges.has(filePath)) {
+    return;
+  }
+  const timer = setTimeout(() => {
+    pendingChanges.delete(filePath);
+    for (const listener of listeners.get(filePath) ?? []) {
+      listener();
+    }
+  }, DEBOUNCE_MS);
+  timer.unref();
+  pendingChanges.set(filePath, timer);
+}
+
+const unwatchDirectory = (dir: string): void => {
+  directoryWatches.get(dir)?.watcher.close();
+  directoryWatches.delete(dir);
+};
+
+/**
+ * Watches the directory of a file rather than the file itself: editors and
+ * our own atomic writes replace files by renaming over them, which ends a
+ * watch on the file. Directories that cannot be watched, such as one that
+ * does not exist yet, only report the changes made through the editor.
+ */
+const watchDirectory = (dir: string, filePath: string): void => {
+  const existing = directoryWatches.get(dir);
+  if (existing) {
+    existing.files.add(filePath);
+    return;
+  }
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(dir, { persistent: false }, (_event, filename) => {
+      const watch = directoryWatches.get(dir);
+      if (!filename) {
+        // Some platforms do not say which file changed
+        watch?.files.forEach(notifyFileChanged);
+      } else {
+        notifyFileChanged(path.join(dir, filename.toString()));
+      }
+    });
+  } catch {
+    return;
+  }
+  watcher.on('error', () => unwatchDirectory(dir));
+  directoryWatches.set(dir, { watcher, files: new Set([filePath]) });
+};
+
+/**
+ * Calls `onChange` whenever a file changes on disk, is created or is
+ * removed. Returns a function that stops watching.
+ */
+export function watchFile(filePath: string, onChange: Listener): () => void {
+  const fileListeners = listeners.get(filePath) ?? new Set<Listener>();
+  listeners.set(filePath, fileListeners);
+  fileListeners.add(onChange);
+  const dir = path.dirname(filePath);
+  watchDirectory(dir, filePath);
+
+  let watching = true;
+  return () => {
+    if (!watching) {
+      return;
+    }
+    watching = false;
+    fileListeners.delete(onChange);
+    if (fileListeners.size > 0) {
+      return;
+    }
+    listeners.delete(filePath);
+    clearTimeout(pendingChanges.get(filePath));
+    pendingChanges.delete(filePath);
+    const watch = directoryWatches.get(dir);
+    watch?.files.delete(filePath);
+    if (watch?.files.size === 0) {
+      unwatchDirectory(dir);
+    }
+  };
+}
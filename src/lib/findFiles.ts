@@ -0,0 +1,97 @@
+import { walkDirectory, WalkEntry } from './fileWalker.js';
+import { matchesPathGlob } from './search.js';
+
+export type FindFilesOptions = {
+  /** Glob matched against paths relative to the root. */
+  pattern: string;
+  /** Skip files matching any of these globs. */
+  exclude?: string[];
+  /** `path` sorts alphabetically, `mtime` lists recently modified first. */
+  sortBy?: 'path' | 'mtime';
+  /** Cursor returned by the previous page. */
+  cursor?: string;
+  /** Maximum length of a page of results in characters. */
+  outputLimit: number;
+};
+
+export type FindFilesResult = {
+  /** Absolute paths on this page. */
+  paths: string[];
+  /** Number of files matching in total. */
+  total: number;
+  /** Index of the first result on this page. */
+  offset: number;
+  /** Pass back as `cursor` to get the next page, if there is one. */
+  nextCursor?: string;
+};
+
+const encodeCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+const decodeCursor = (cursor: string): number => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+};
+
+/**
+ * Lists the files under `root` matching a glob, honouring `.gitignore` and
+ * the deny list, one page at a time. Globs without a `/` match file names at
+ * any depth. Pages hold as many paths as fit in the output limit.
+ */
+export async function findFiles(
+  root: string,
+  {
+    pattern,
+    exclude = [],
+    sortBy = 'path',
+    cursor,
+    outputLimit,
+  }: FindFilesOptions,
+): Promise<FindFilesResult> {
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor);
+
+  const matches: WalkEntry[] = [];
+  for await (const entry of walkDirectory(root)) {
+    if (
+      entry.type === 'file' &&
+      matchesPathGlob(entry.relativePath, pattern) &&
+      !exclude.some((glob) => matchesPathGlob(entry.relativePath, glob))
+    ) {
+      matches.push(entry);
+    }
+  }
+
+  matches.sort((a, b) =>
+    sortBy === 'mtime' && a.mtimeMs !== b.mtimeMs
+      ? b.mtimeMs - a.mtimeMs
+      : a.relativePath < b.relativePath
+        ? -1
+        : 1,
+  );
+
+  const paths: string[] = [];
+  let length = 0;
+  for (const entry of matches.slice(offset)) {
+    // Always make progress, even if a single path exceeds the limit
+    if (paths.length > 0 && length + entry.path.length + 1 > outputLimit) {
+      break;
+    }
+    paths.push(entry.path);
+    length += entry.path.length + 1;
+  }
+
+  const next = offset + paths.length;
+  return {
+    paths,
+    total: matches.length,
+    offset,
+    nextCursor: next < matches.length ? encodeCursor(next) : undefined,
+  };
+}
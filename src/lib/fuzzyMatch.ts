@@ -0,0 +1,234 @@
+/**
+ * Fallback matching for `str_replace` when `old_str` is not found verbatim,
+ * tolerant of the whitespace mistakes models commonly make: trailing spaces,
+ * tabs versus spaces, different indentation and CRLF line endings.
+ */
+
+export type FuzzyMatch = {
+  index: number;
+  text: string;
+};
+
+export type CandidateRegion = {
+  /** 1-based first and last line of the region. */
+  start: number;
+  end: number;
+  /** Similarity to `old_str` between 0 and 1. */
+  score: number;
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the matches of `oldStr` in `content` when runs of whitespace are
+ * compared loosely: horizontal whitespace matches any other horizontal
+ * whitespace, line breaks match line breaks of either style together with
+ * the indentation around them, and leading and trailing whitespace of
+ * `oldStr` is ignored (a trailing line break still has to match one, or the
+ * end of the file).
+ */
+export function findWhitespaceInsensitiveMatches(
+  content: string,
+  oldStr: string,
+): FuzzyMatch[] {
+  const trimmed = oldStr.trim();
+  if (trimmed === '') {
+    return [];
+  }
+
+  const source = trimmed
+    .split(/(\s+)/)
+    .map((part, index) => {
+      if (index % 2 === 0) {
+        return escapeRegExp(part);
+      }
+      return part.includes('\n') ? '[ \\t]*(?:\\r?\\n[ \\t]*)+' : '[ \\t]+';
+    })
+    .join('');
+  const endsWithLineBreak = /\n[ \t]*$/.test(oldStr.replace(/\r/g, ''));
+  const pattern = new RegExp(
+    endsWithLineBreak ? `${source}[ \\t]*(?:\\r?\\n|$)` : source,
+    'g',
+  );
+
+  return [...content.matchAll(pattern)].map((match) => ({
+    index: match.index!,
+    text: match[0],
+  }));
+}
+
+const indentationOf = (line: string): string => /^[ \t]*/.exec(line)![0];
+
+const nonBlankIndentations = (text: string): string[] =>
+  text
+    .replace(/\r/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map(indentationOf);
+
+/**
+ * Adapts `newStr` to a whitespace-insensitive match. `matchedLines` is the
+ * matched text preceded by the rest of its first line. Since whitespace only
+ * matches whitespace, the non-blank lines of `oldStr` and of the match pair
+ * up, which tells how each indentation used in `oldStr` is written in the
+ * file; `newStr` lines are translated accordingly. Its first line continues
+ * the indentation already in front of the match, and line breaks use `eol`.
+ */
+export function adaptReplacement(
+  newStr: string,
+  oldStr: string,
+  matchedLines: string,
+  eol: string,
+): string {
+  const oldIndents = nonBlankIndentations(oldStr);
+  const fileIndents = nonBlankIndentations(matchedLines);
+  const translations = oldIndents
+    .map((from, index) => ({ from, to: fileIndents[index] ?? from }))
+    .sort((a, b) => b.from.length - a.from.length);
+
+  const translate = (indent: string): string => {
+    // The deepest old indentation this one extends
+    const translation = translations.find(({ from }) =>
+      indent.startsWith(from),
+    );
+    return translation
+      ? `${translation.to}${indent.slice(translation.from.length)}`
+      : indent;
+  };
+
+  let lines = newStr.replace(/\r\n/g, '\n').split('\n');
+
+  // Leading blank lines of old_str were not part of the match
+  if (/^[ \t]*\r?\n/.test(oldStr)) {
+    while (lines.length > 1 && lines[0].trim() === '') {
+      lines = lines.slice(1);
+    }
+  }
+
+  return lines
+    .map((line, index) => {
+      const indent = indentationOf(line);
+      if (index === 0) {
+        return line.slice(indent.length);
+      }
+      if (line.trim() === '') {
+        return '';
+      }
+      return `${translate(indent)}${line.slice(indent.length)}`;
+    })
+    .join(eol);
+}
+
+const normalizeLine = (line: string): string =>
+  line.trim().replace(/\s+/g, ' ');
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient over character bigrams
+const similarity = (
+  a: string,
+  b: string,
+  aBigrams: Map<string, number>,
+  bBigrams: Map<string, number>,
+): number => {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+  let shared = 0;
+  for (const [pair, count] of aBigrams) {
+    shared += Math.min(count, bBigrams.get(pair) ?? 0);
+  }
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+};
+
+// Keeps the candidate search cheap on very large files
+const MAX_COMPARISONS = 2_000_000;
+
+/**
+ * Ranks the regions of `content` by how closely their lines resemble the
+ * lines of `oldStr`, ignoring whitespace differences, and returns the best
+ * non-overlapping ones.
+ */
+export function findClosestRegions(
+  content: string,
+  oldStr: string,
+  limit = 3,
+): CandidateRegion[] {
+  const wanted = oldStr
+    .replace(/\r/g, '')
+    .split('\n')
+    .map(normalizeLine)
+    .filter((line) => line !== '');
+  const lines = content.replace(/\r/g, '').split('\n').map(normalizeLine);
+  if (wanted.length === 0 || lines.length * wanted.length > MAX_COMPARISONS) {
+    return [];
+  }
+
+  const wantedBigrams = wanted.map(bigrams);
+  const lineBigrams = lines.map(bigrams);
+  const span = Math.min(wanted.length, lines.length);
+
+  const regions: CandidateRegion[] = [];
+  for (let start = 0; start + span <= lines.length; start++) {
+    let total = 0;
+    for (let offset = 0; offset < span; offset++) {
+      total += similarity(
+        wanted[offset],
+        lines[start + offset],
+        wantedBigrams[offset],
+        lineBigrams[start + offset],
+      );
+    }
+    regions.push({
+      start: start + 1,
+      end: start + span,
+      score: total / wanted.length,
+    });
+  }
+
+  const best: CandidateRegion[] = [];
+  for (const region of regions.sort((a, b) => b.score - a.score)) {
+    if (best.length === limit || region.score < 0.5) {
+      break;
+    }
+    if (
+      best.every(
+        (other) => region.end < other.start || region.start > other.end,
+      )
+    ) {
+      best.push(region);
+    }
+  }
+  return best;
+}
+
+/**
+ * Renders candidate regions with line numbers for an error message.
+ */
+export function formatCandidateRegions(
+  content: string,
+  regions: CandidateRegion[],
+): string {
+  const lines = content.split('\n');
+  return regions
+    .map(({ start, end, score }) =>
+      [
+        `Lines ${start}-${end} (${Math.round(score * 100)}% similar):`,
+        ...lines
+          .slice(start - 1, end)
+          .map((line, i) => `${start + i}: ${line.replace(/\r$/, '')}`),
+      ].join('\n'),
+    )
+    .join('\n');
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { globToRegExp, toPosixPath } from './glob.js';
+
+export type IgnoreRule = {
+  regExp: RegExp;
+  /** `!pattern` re-includes what earlier rules excluded. */
+  negate: boolean;
+  /** `pattern/` only matches directories. */
+  directoryOnly: boolean;
+  /** Patterns containing a `/` match the whole relative path. */
+  anchored: boolean;
+};
+
+/** The rules of one `.gitignore` file and the directory it applies to. */
+export type IgnoreRules = {
+  baseDir: string;
+  rules: IgnoreRule[];
+};
+
+/**
+ * Parses the content of a `.gitignore` file.
+ */
+export function parseGitignore(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    if (line === '') {
+      continue;
+    }
+
+    rules.push({ regExp: globToRegExp(line), negate, directoryOnly, anchored });
+  }
+  return rules;
+}
+
+const readRules = async (dir: string): Promise<IgnoreRules | undefined> => {
+  const text = await fs
+    .readFile(path.join(dir, '.gitignore'), 'utf8')
+    .catch(() => null);
+  return text === null
+    ? undefined
+    : { baseDir: dir, rules: parseGitignore(text) };
+};
+
+/**
+ * Loads the `.gitignore` rules that apply inside `dir`: those of `dir` itself
+ * and of its ancestors up to the root of the enclosing git repository. Outside
+ * a repository only the rules of `dir` are used. Ordered outermost first.
+ */
+export async function loadIgnoreRules(dir: string): Promise<IgnoreRules[]> {
+  const stack: IgnoreRules[] = [];
+  for (let current = dir; ; current = path.dirname(current)) {
+    const rules = await readRules(current);
+    if (rules) {
+      stack.unshift(rules);
+    }
+    const isRepositoryRoot = await fs
+      .stat(path.join(current, '.git'))
+      .then(() => true)
+      .catch(() => false);
+    if (isRepositoryRoot || path.dirname(current) === current) {
+      // Only ancestors inside the same repository contribute rules
+      return isRepositoryRoot ? stack : stack.filter((r) => r.baseDir === dir);
+    }
+  }
+}
+
+/**
+ * Returns the stack extended with the `.gitignore` of `dir`, if it has one.
+ */
+export async function withDirectoryRules(
+  stack: IgnoreRules[],
+  dir: string,
+): Promise<IgnoreRules[]> {
+  const rules = await readRules(dir);
+  return rules ? [...stack, rules] : stack;
+}
+
+/**
+ * Tells whether `filePath` is ignored by a stack of `.gitignore` rules. Like
+ * git, the last matching rule wins and deeper files override outer ones.
+ */
+export function isIgnored(
+  stack: IgnoreRules[],
+  filePath: string,
+  isDirectory: boolean,
+): boolean {
+  let ignored = false;
+  for (const { baseDir, rules } of stack) {
+    const relative = toPosixPath(path.relative(baseDir, filePath));
+    if (relative === '' || relative.split('/')[0] === '..') {
+      continue;
+    }
+    const name = path.basename(filePath);
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regExp.test(rule.anchored ? relative : name)) {
+        ignored = !rule.negate;
+      }
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,102 @@
+const regExpCache = new Map<string, RegExp>();
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+
+/**
+ * Converts a glob pattern into an anchored regular expression.
+ *
+ * Supports `*` (anything but `/`), `**` (any number of path segments),
+ * `?` (a single character), `[abc]` character classes and `{a,b}` alternation.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    switch (char) {
+      case '*': {
+        if (pattern[i + 1] === '*') {
+          const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+          const atSegmentEnd =
+            i + 2 === pattern.length || pattern[i + 2] === '/';
+          if (atSegmentStart && atSegmentEnd) {
+            if (pattern[i + 2] === '/') {
+              // `**/` matches zero or more whole directories
+              source += '(?:[^/]*/)*';
+              i += 2;
+            } else {
+              source += '.*';
+              i += 1;
+            }
+            break;
+          }
+          i += 1;
+        }
+        source += '[^/]*';
+        break;
+      }
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+          break;
+        }
+        let body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) {
+          body = `^${body.slice(1)}`;
+        }
+        source += `[${body}]`;
+        i = end;
+        break;
+      }
+      case '{':
+        braceDepth++;
+        source += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+      case ',':
+        source += braceDepth > 0 ? '|' : ',';
+        break;
+      case '\\':
+        i += 1;
+        source += escapeRegExp(pattern[i] ?? '\\');
+        break;
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Tests a `/`-separated path against a glob pattern.
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath);
+}
+
+/**
+ * Converts a platform path to the `/`-separated form used by glob patterns.
+ */
+export function toPosixPath(filePath: string): string {
+  return filePath.split('\\').join('/');
+}
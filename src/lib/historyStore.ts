@@ -0,0 +1,564 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { DEFAULT_SESSION_ID, getSessionId } from './sessionContext.js';
+
+import type { TextEncoding } from './encoding.js';
+
+/**
+ * Links entries that were recorded together (e.g. by a transaction) so that
+ * they are undone and redone as a unit.
+ */
+export type HistoryGroup = {
+  id: string;
+  paths: string[];
+  /** What recorded the group, e.g. `move of a to b`, for undo messages. */
+  operation?: string;
+};
+
+export type HistoryEntry = {
+  path: string;
+  /** Previous file content, `null` when the file did not exist. */
+  content: string | null;
+  timestamp: number;
+  group?: HistoryGroup;
+  /**
+   * Encoding to write `content` back in. Without it the file keeps its
+   * current encoding, or becomes UTF-8 if it no longer exists.
+   */
+  encoding?: TextEncoding;
+  /**
+   * Set when `path` was a directory, which is recreated empty. `content` is
+   * then `null`.
+   */
+  directory?: boolean;
+};
+
+/**
+ * Stack of file states used by `undo_edit` and `redo_edit`, keyed by file
+ * path.
+ */
+export type HistoryStore = {
+  push(
+    filePath: string,
+    content: string | null,
+    group?: HistoryGroup,
+    encoding?: TextEncoding,
+    directory?: boolean,
+  ): Promise<void>;
+  peek(filePath: string): Promise<HistoryEntry | undefined>;
+  pop(filePath: string): Promise<HistoryEntry | undefined>;
+  count(filePath: string): Promise<number>;
+  clear(filePath: string): Promise<void>;
+  /** Enforces the age and size limits across every file's entries. */
+  prune(): Promise<void>;
+};
+
+export type DiskHistoryOptions = {
+  /** Directory holding the journal, created on first write. */
+  dir: string;
+  /** Maximum number of entries kept per file. */
+  maxEntriesPerFile?: number;
+  /** Entries older than this are discarded. */
+  maxAgeMs?: number;
+  /**
+   * Upper bound on the journal size, oldest entries are evicted first. It is
+   * enforced by `prune`, so the journal can grow past it in between.
+   */
+  maxTotalBytes?: number;
+};
+
+export const DEFAULT_HISTORY_LIMITS = {
+  maxEntriesPerFile: 50,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  maxTotalBytes: 100 * 1024 * 1024, // 100MB
+};
+
+const JOURNAL_VERSION = 2;
+
+type JournalRecord = HistoryEntry & {
+  version: number;
+  sha256: string;
+};
+
+const sha256 = (text: string): string =>
+  createHash('sha256').update(text).digest('hex');
+
+const entryChecksum = (entry: Omit<HistoryEntry, 'timestamp'>): string =>
+  sha256(
+    JSON.stringify([
+      entry.path,
+      entry.content,
+      entry.group ?? null,
+      // Records without an encoding keep the checksum they always had
+      ...(entry.encoding ? [entry.encoding] : []),
+      ...(entry.directory ? ['directory'] : []),
+    ]),
+  );
+
+export function createMemoryHistoryStore(): HistoryStore {
+  const fileStateHistory: Record<string, HistoryEntry[]> = {};
+
+  return {
+    async push(filePath, content, group, encoding, directory) {
+      if (!fileStateHistory[filePath]) {
+        fileStateHistory[filePath] = [];
+      }
+      fileStateHistory[filePath].push({
+        path: filePath,
+        content,
+        timestamp: Date.now(),
+        group,
+        encoding,
+        ...(directory && { directory }),
+      });
+    },
+    async peek(filePath) {
+      return fileStateHistory[filePath]?.at(-1);
+    },
+    async pop(filePath) {
+      return fileStateHistory[filePath]?.pop();
+    },
+    async count(filePath) {
+      return fileStateHistory[filePath]?.length ?? 0;
+    },
+    async clear(filePath) {
+      fileStateHistory[filePath] = [];
+    },
+    async prune() {
+      // History in memory has no limits and goes away with the server
+    },
+  };
+}
+
+/**
+ * Journal of file states persisted on disk so that undo survives server
+ * restarts. Each file gets its own directory (named after a hash of its path)
+ * holding one JSON record per entry. Records carry a checksum of their content
+ * and are discarded when it does not match.
+ */
+export function createDiskHistoryStore(
+  options: DiskHistoryOptions,
+): HistoryStore {
+  const limits = {
+    maxEntriesPerFile:
+      options.maxEntriesPerFile ?? DEFAULT_HISTORY_LIMITS.maxEntriesPerFile,
+    maxAgeMs: options.maxAgeMs ?? DEFAULT_HISTORY_LIMITS.maxAgeMs,
+    maxTotalBytes:
+      options.maxTotalBytes ?? DEFAULT_HISTORY_LIMITS.maxTotalBytes,
+  };
+  const dir = path.resolve(options.dir);
+
+  const entryDirFor = (filePath: string): string =>
+    path.join(dir, sha256(filePath).slice(0, 32));
+
+  const listEntryFiles = async (entryDir: string): Promise<string[]> => {
+    const names = await fs.readdir(entryDir).catch(() => [] as string[]);
+    return names.filter((name) => /^\d+\.json$/.test(name)).sort();
+  };
+
+  const readRecord = async (
+    filePath: string,
+    recordPath: string,
+  ): Promise<JournalRecord | undefined> => {
+    try {
+      const record = JSON.parse(
+        await fs.readFile(recordPath, 'utf8'),
+      ) as JournalRecord;
+      if (
+        record.version === JOURNAL_VERSION &&
+        record.path === filePath &&
+        record.sha256 === entryChecksum(record)
+      ) {
+        return record;
+      }
+    } catch {
+      // Fall through to the integrity failure below
+    }
+    console.error(`Discarding corrupt history entry: ${recordPath}`);
+    await fs.rm(recordPath, { force: true });
+    return undefined;
+  };
+
+  /**
+   * Drops the entries of one file beyond the per-file cap or older than the
+   * age limit, and lists the ones kept.
+   */
+  const pruneEntryDir = async (
+    entryDir: string,
+  ): Promise<{ file: string; mtimeMs: number; size: number }[]> => {
+    const cutoff = Date.now() - limits.maxAgeMs;
+    const files = await listEntryFiles(entryDir);
+    const excess = files.length - limits.maxEntriesPerFile;
+    const remaining: { file: string; mtimeMs: number; size: number }[] = [];
+
+    for (const [index, name] of files.entries()) {
+      const file = path.join(entryDir, name);
+      const stats = await fs.stat(file).catch(() => null);
+      if (!stats) {
+        continue;
+      }
+      if (index < excess || stats.mtimeMs < cutoff) {
+        await fs.rm(file, { force: true });
+      } else {
+        remaining.push({ file, mtimeMs: stats.mtimeMs, size: stats.size });
+      }
+    }
+    return remaining;
+  };
+
+  // Walks the whole journal, so it is not run on every push
+  const prune = async (): Promise<void> => {
+    const entryDirs = await fs.readdir(dir).catch(() => [] as string[]);
+    const remaining: { file: string; mtimeMs: number; size: number }[] = [];
+    for (const entryDirName of entryDirs) {
+      remaining.push(...(await pruneEntryDir(path.join(dir, entryDirName))));
+    }
+
+    let totalBytes = remaining.reduce((sum, entry) => sum + entry.size, 0);
+    remaining.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of remaining) {
+      if (totalBytes <= limits.maxTotalBytes) {
+        break;
+      }
+      await fs.rm(entry.file, { force: true });
+      totalBytes -= entry.size;
+    }
+  };
+
+  /**
+   * Returns the newest valid entry, dropping corrupt and expired records on
+   * the way. With `remove` the returned entry is taken off the stack.
+   */
+  const readTop = async (
+    filePath: string,
+    remove: boolean,
+  ): Promise<HistoryEntry | undefined> => {
+    const entryDir = entryDirFor(filePath);
+    const files = await listEntryFiles(entryDir);
+
+    while (files.length > 0) {
+      const recordPath = path.join(entryDir, files.pop()!);
+      const record = await readRecord(filePath, recordPath);
+      if (!record) {
+        continue;
+      }
+      const expired = record.timestamp < Date.now() - limits.maxAgeMs;
+      if (remove || expired) {
+        await fs.rm(recordPath, { force: true });
+      }
+      if (expired) {
+        continue;
+      }
+      return {
+        path: record.path,
+        content: record.content,
+        timestamp: record.timestamp,
+        group: record.group,
+        encoding: record.encoding,
+        ...(record.directory && { directory: true }),
+      };
+    }
+
+    return undefined;
+  };
+
+  return {
+    async push(filePath, content, group, encoding, directory) {
+      const entryDir = entryDirFor(filePath);
+      await fs.mkdir(entryDir, { recursive: true });
+
+      const files = await listEntryFiles(entryDir);
+      const lastSequence = files.length
+        ? parseInt(files[files.length - 1], 10)
+        : 0;
+      const name = `${String(lastSequence + 1).padStart(12, '0')}.json`;
+
+      const record: JournalRecord = {
+        version: JOURNAL_VERSION,
+        path: filePath,
+        content,
+        timestamp: Date.now(),
+        group,
+        encoding,
+        ...(directory && { directory }),
+        sha256: entryChecksum({
+          path: filePath,
+          content,
+          group,
+          encoding,
+          directory,
+        }),
+      };
+
+      // Write to a temporary name first so a crash never leaves a partial record
+      const tempPath = path.join(entryDir, `${name}.${process.pid}.tmp`);
+      await fs.writeFile(tempPath, JSON.stringify(record), 'utf8');
+      await fs.rename(tempPath, path.join(entryDir, name));
+
+      await pruneEntryDir(entryDir);
+    },
+
+    peek(filePath) {
+      return readTop(filePath, false);
+    },
+
+    pop(filePath) {
+      return readTop(filePath, true);
+    },
+
+    async count(filePath) {
+      return (await listEntryFiles(entryDirFor(filePath))).length;
+    },
+
+    async clear(filePath) {
+      await fs.rm(entryDirFor(filePath), { recursive: true, force: true });
+    },
+
+    prune,
+  };
+}
+
+export type Checkpoint = {
+  label: string;
+  timestamp: number;
+  /**
+   * Snapshot of each file, `null` when the file did not exist, with the
+   * encoding to write it back in.
+   */
+  files: { path: string; content: string | null; encoding?: TextEncoding }[];
+};
+
+/**
+ * Named snapshots of one or more files used by `restore_checkpoint`.
+ */
+export type CheckpointStore = {
+  save(checkpoint: Checkpoint): Promise<void>;
+  load(label: string): Promise<Checkpoint | undefined>;
+  list(): Promise<string[]>;
+};
+
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, Checkpoint>();
+
+  return {
+    async save(checkpoint) {
+      checkpoints.set(checkpoint.label, checkpoint);
+    },
+    async load(label) {
+      return checkpoints.get(label);
+    },
+    async list() {
+      return [...checkpoints.keys()].sort();
+    },
+  };
+}
+
+/**
+ * Checkpoints persisted as one checksummed JSON record per label.
+ */
+export function createDiskCheckpointStore(dir: string): CheckpointStore {
+  const recordPathFor = (label: string): string =>
+    path.join(dir, `${sha256(label).slice(0, 32)}.json`);
+
+  const readCheckpoint = async (
+    recordPath: string,
+  ): Promise<Checkpoint | undefined> => {
+    const text = await fs.readFile(recordPath, 'utf8').catch(() => undefined);
+    if (text === undefined) {
+      return undefined;
+    }
+    try {
+      const { sha256: checksum, ...checkpoint } = JSON.parse(text) as {
+        sha256: string;
+      } & Checkpoint;
+      if (checksum === sha256(JSON.stringify(checkpoint))) {
+        return checkpoint;
+      }
+    } catch {
+      // Fall through to the integrity failure below
+    }
+    console.error(`Discarding corrupt checkpoint: ${recordPath}`);
+    await fs.rm(recordPath, { force: true });
+    return undefined;
+  };
+
+  return {
+    async save(checkpoint) {
+      await fs.mkdir(dir, { recursive: true });
+      const recordPath = recordPathFor(checkpoint.label);
+      const tempPath = `${recordPath}.${process.pid}.tmp`;
+      const record = {
+        ...checkpoint,
+        sha256: sha256(JSON.stringify(checkpoint)),
+      };
+      await fs.writeFile(tempPath, JSON.stringify(record), 'utf8');
+      await fs.rename(tempPath, recordPath);
+    },
+    async load(label) {
+      const checkpoint = await readCheckpoint(recordPathFor(label));
+      return checkpoint?.label === label ? checkpoint : undefined;
+    },
+    async list() {
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      const labels: string[] = [];
+      for (const name of names.filter((name) => name.endsWith('.json'))) {
+        const checkpoint = await readCheckpoint(path.join(dir, name));
+        if (checkpoint) {
+          labels.push(checkpoint.label);
+        }
+      }
+      return labels.sort();
+    },
+  };
+}
+
+/**
+ * Everything `undo_edit`, `redo_edit` and the checkpoint commands need.
+ */
+export type EditHistory = {
+  undo: HistoryStore;
+  redo: HistoryStore;
+  checkpoints: CheckpointStore;
+};
+
+// Session directories untouched for this long are left over from a server
+// that stopped without ending its sessions
+const ORPHANED_SESSION_AGE_MS = 24 * 60 * 60 * 1000;
+
+let historyOptions: Partial<DiskHistoryOptions> = {};
+const histories = new Map<string, EditHistory>();
+
+/**
+ * Directory holding the history of a session: the configured directory for
+ * the default session, and a subdirectory of it for MCP sessions.
+ */
+const historyDirFor = (sessionId: string): string | undefined =>
+  historyOptions.dir &&
+  (sessionId === DEFAULT_SESSION_ID
+    ? historyOptions.dir
+    : path.join(historyOptions.dir, 'sessions', sessionId));
+
+const createEditHistory = (sessionId: string): EditHistory => {
+  const dir = historyDirFor(sessionId);
+  return dir
+    ? {
+        undo: createDiskHistoryStore({
+          ...historyOptions,
+          dir: path.join(dir, 'undo'),
+        }),
+        redo: createDiskHistoryStore({
+          ...historyOptions,
+          dir: path.join(dir, 'redo'),
+        }),
+        checkpoints: createDiskCheckpointStore(path.join(dir, 'checkpoints')),
+      }
+    : {
+        undo: createMemoryHistoryStore(),
+        redo: createMemoryHistoryStore(),
+        checkpoints: createMemoryCheckpointStore(),
+      };
+};
+
+/**
+ * Selects where edit history is kept. Without a directory history lives in
+ * memory and is lost when the server exits. With one, undo and redo stacks
+ * and checkpoints each get a subdirectory of the journal. Every session has
+ * its own history; this drops the history of all of them.
+ */
+export function configureEditHistory(
+  options: Partial<DiskHistoryOptions> = {},
+): EditHistory {
+  historyOptions = options;
+  histories.clear();
+  return getEditHistory();
+}
+
+/**
+ * The edit history of the current session.
+ */
+export function getEditHistory(): EditHistory {
+  const sessionId = getSessionId();
+  let history = histories.get(sessionId);
+  if (!history) {
+    history = createEditHistory(sessionId);
+    histories.set(sessionId, history);
+  }
+  return history;
+}
+
+/**
+ * Discards the undo and redo stacks and checkpoints of a session, deleting
+ * them from disk when history is persisted.
+ */
+export async function clearEditHistory(sessionId: string): Promise<void> {
+  histories.delete(sessionId);
+  const dir = historyDirFor(sessionId);
+  if (dir) {
+    await Promise.all(
+      ['undo', 'redo', 'checkpoints'].map((name) =>
+        fs.rm(path.join(dir, name), { recursive: true, force: true }),
+      ),
+    );
+    if (sessionId !== DEFAULT_SESSION_ID) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Enforces the history limits on the undo and redo stacks of every session
+ * this server knows about. Pushing an entry only trims the history of the
+ * file it belongs to; this sweep also drops stale entries of files that are
+ * no longer edited and evicts the oldest entries above the size cap.
+ */
+export async function pruneEditHistory(): Promise<void> {
+  for (const history of histories.values()) {
+    await history.undo.prune();
+    await history.redo.prune();
+  }
+}
+
+/**
+ * Time of the last change to a file or anything below a directory.
+ */
+const lastModified = async (entryPath: string): Promise<number> => {
+  const stats = await fs.stat(entryPath);
+  let latest = stats.mtimeMs;
+  if (stats.isDirectory()) {
+    for (const name of await fs.readdir(entryPath)) {
+      latest = Math.max(latest, await lastModified(path.join(entryPath, name)));
+    }
+  }
+  return latest;
+};
+
+/**
+ * Deletes the persisted history of MCP sessions that a server stopped
+ * without ending, once nothing in it has changed for a day. Sessions this
+ * server knows about are kept. Returns the ids of the sessions removed.
+ */
+export async function pruneOrphanedSessions(
+  now = Date.now(),
+): Promise<string[]> {
+  if (!historyOptions.dir) {
+    return [];
+  }
+  const sessionsDir = path.join(historyOptions.dir, 'sessions');
+  const sessionIds = await fs.readdir(sessionsDir).catch(() => [] as string[]);
+  const pruned: string[] = [];
+  for (const sessionId of sessionIds) {
+    if (histories.has(sessionId)) {
+      continue;
+    }
+    const dir = path.join(sessionsDir, sessionId);
+    // Keep what cannot be read; another server may be writing to it
+    const latest = await lastModified(dir).catch(() => now);
+    if (now - latest >= ORPHANED_SESSION_AGE_MS) {
+      await fs.rm(dir, { recursive: true, force: true });
+      pruned.push(sessionId);
+    }
+  }
+  return pruned;
+}
@@ -0,0 +1,289 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { waitForPending } from './pendingWork.js';
+
+export type HttpServerOptions = {
+  /** `http` serves Streamable HTTP at `/mcp`, `sse` the legacy `/sse` transport. */
+  transport: 'http' | 'sse';
+  host: string;
+  /** Port to listen on, 0 for any free port. */
+  port: number;
+  /** Bearer token every request must carry; no authentication if unset. */
+  authToken?: string;
+  /** Creates the server of a new session, so sessions share no state. */
+  createServer: () => McpServer;
+  /** Called once a session has ended, to release the state it kept. */
+  onSessionClosed?: (sessionId: string) => void | Promise<void>;
+  /** How long shutdown waits for tool calls in progress (default 10s). */
+  drainTimeoutMs?: number;
+};
+
+export type HttpServerHandle = {
+  /** Base URL the server listens on, e.g. `http://127.0.0.1:3000`. */
+  url: string;
+  /** Number of open sessions. */
+  sessionCount(): number;
+  /**
+   * Stops accepting connections, waits for tool calls in progress to finish
+   * and closes every session.
+   */
+  close(): Promise<void>;
+};
+
+type Session<Transport> = {
+  server: McpServer;
+  transport: Transport;
+};
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+// Requests carry whole files, so allow bodies well beyond the usual JSON size
+const MAX_BODY_SIZE = 64 * 1024 * 1024;
+const DEFAULT_DRAIN_TIMEOUT_MS = 10_000;
+
+const sendJsonRpcError = (
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  headers: http.OutgoingHttpHeaders = {},
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+};
+
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+/**
+ * Compares the bearer token of a request with the expected one in constant
+ * time.
+ */
+const isAuthorized = (
+  req: http.IncomingMessage,
+  authToken: string | undefined,
+): boolean => {
+  if (!authToken) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  // Hash both sides so tokens of different lengths compare in equal time
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+};
+
+const isInitialize = (body: unknown): boolean =>
+  Array.isArray(body)
+    ? body.some(isInitializeRequest)
+    : isInitializeRequest(body);
+
+/**
+ * Serves MCP over HTTP, with one server instance per session. Resolves once
+ * the server is listening.
+ */
+export async function startHttpServer({
+  transport: kind,
+  host,
+  port,
+  authToken,
+  createServer,
+  onSessionClosed,
+  drainTimeoutMs = DEFAULT_DRAIN_TIMEOUT_MS,
+}: HttpServerOptions): Promise<HttpServerHandle> {
+  // Only the sessions of the configured transport kind are ever used
+  const sessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  const releaseSession = async (sessionId: string) => {
+    try {
+      await onSessionClosed?.(sessionId);
+    } catch (error) {
+      console.error(`Error releasing session ${sessionId}:`, error);
+    }
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId) ?? sseSessions.get(sessionId);
+    sessions.delete(sessionId);
+    sseSessions.delete(sessionId);
+    if (session) {
+      await session.server.close();
+      await releaseSession(sessionId);
+    }
+  };
+
+  const handleStreamableHttp = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const session =
+      typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!session) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, `Parse error: ${(error as Error).message}`);
+      return;
+    }
+
+    if (session) {
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined || !isInitialize(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+      },
+    });
+    transport.onclose = () => {
+      // Closed by the client with DELETE, rather than by closeSession
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) {
+        void releaseSession(id);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+  ) => {
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const server = createServer();
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseSessions.set(transport.sessionId, { server, transport });
+      res.on('close', () => {
+        void closeSession(transport.sessionId);
+      });
+      await server.connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === SSE_MESSAGES_PATH) {
+      const session = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Parse error: ${(error as Error).message}`);
+        return;
+      }
+      await session.transport.handlePostMessage(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 404, 'Not found');
+  };
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!isAuthorized(req, authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', {
+        'WWW-Authenticate': 'Bearer',
+      });
+    } else if (kind === 'sse') {
+      await handleSse(req, res, url);
+    } else if (url.pathname === MCP_PATH) {
+      await handleStreamableHttp(req, res);
+    } else {
+      sendJsonRpcError(res, 404, 'Not found');
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address() as AddressInfo;
+  const urlHost =
+    address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${urlHost}:${address.port}`,
+    sessionCount: () => sessions.size + sseSessions.size,
+    async close() {
+      const stopped = new Promise<void>((resolve) =>
+        httpServer.close(() => resolve()),
+      );
+      if (!(await waitForPending(drainTimeoutMs))) {
+        console.error(
+          `Tool calls still running after ${drainTimeoutMs}ms, closing anyway`,
+        );
+      }
+      await Promise.all(
+        [...sessions.keys(), ...sseSessions.keys()].map(closeSession),
+      );
+      httpServer.closeAllConnections();
+      await stopped;
+    },
+  };
+}
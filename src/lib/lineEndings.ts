@@ -0,0 +1,36 @@
+export type LineEnding = 'lf' | 'crlf';
+
+/** How a file ends its lines; `none` when it has a single line. */
+export type LineEndingStyle = LineEnding | 'mixed' | 'none';
+
+export const LINE_ENDING_STYLES = ['lf', 'crlf', 'mixed', 'none'] as const;
+
+export function detectLineEndings(text: string): LineEndingStyle {
+  const lineFeeds = text.split('\n').length - 1;
+  if (lineFeeds === 0) {
+    return 'none';
+  }
+  const crlf = text.split('\r\n').length - 1;
+  if (crlf === 0) {
+    return 'lf';
+  }
+  return crlf === lineFeeds ? 'crlf' : 'mixed';
+}
+
+export function convertLineEndings(text: string, ending: LineEnding): string {
+  const lf = text.replace(/\r\n/g, '\n');
+  return ending === 'crlf' ? lf.replace(/\n/g, '\r\n') : lf;
+}
+
+/**
+ * Gives `updated` the line endings of `original` when the original uses a
+ * single style consistently, so that edits written with `\n` do not leave a
+ * CRLF file with mixed line endings (or the other way round). Files that
+ * already mix styles, or have no line break yet, are left as they are.
+ */
+export function matchLineEndings(original: string, updated: string): string {
+  const style = detectLineEndings(original);
+  return style === 'lf' || style === 'crlf'
+    ? convertLineEndings(updated, style)
+    : updated;
+}
@@ -0,0 +1,385 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+
+import { writeFileAtomic } from './atomicWrite.js';
+import { encodeText } from './encoding.js';
+import { convertLineEndings, LineEndingStyle } from './lineEndings.js';
+
+/**
+ * Files at least this large are viewed and edited line by line from disk
+ * instead of being read into memory.
+ */
+export const LARGE_FILE_SIZE = 8 * 1024 * 1024;
+
+// The byte offset of every this many lines is kept in the index
+const LINE_INDEX_INTERVAL = 1000;
+const CHUNK_SIZE = 1024 * 1024;
+// Indexes of this many files are kept, the least recently used go first
+const MAX_CACHED_INDEXES = 32;
+
+const NEWLINE = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+
+/** Encodings whose line breaks are single `\n` bytes. */
+export type StreamableEncoding = 'utf8' | 'utf8-bom' | 'latin1';
+
+/**
+ * Where the lines of a file start, sampled every LINE_INDEX_INTERVAL lines
+ * so the index stays small however many lines there are, together with what
+ * a full read of the file would have reported.
+ */
+export type LineIndex = {
+  size: number;
+  mtimeMs: number;
+  encoding: StreamableEncoding;
+  lineEnding: LineEndingStyle;
+  /** Number of lines, counted like `content.split('\n').length`. */
+  lineCount: number;
+  /** `checkpoints[i]` is the byte offset of line `i * LINE_INDEX_INTERVAL + 1`. */
+  checkpoints: number[];
+  /** Hash of the decoded content, the same as `hashContent` gives. */
+  hash: string;
+};
+
+const cache = new Map<string, LineIndex>();
+
+const bomLength = (encoding: StreamableEncoding): number =>
+  encoding === 'utf8-bom' ? 3 : 0;
+
+/**
+ * Hashes file bytes as `hashContent` hashes the decoded text: without the
+ * byte order mark, and with Latin-1 converted to UTF-8.
+ */
+const createContentHasher = (encoding: StreamableEncoding) => {
+  const hash = createHash('sha256');
+  let skip = bomLength(encoding);
+  return {
+    update(bytes: Buffer) {
+      const data = bytes.subarray(skip);
+      skip = Math.max(0, skip - bytes.length);
+      hash.update(
+        encoding === 'latin1'
+          ? Buffer.from(data.toString('latin1'), 'utf8')
+          : data,
+      );
+    },
+    digest: () => hash.digest('hex'),
+  };
+};
+
+/**
+ * Calls `onChunk` with consecutive chunks of `handle` from `start` to `end`.
+ * The chunk buffer is reused between calls.
+ */
+const readChunks = async (
+  handle: fs.FileHandle,
+  start: number,
+  end: number,
+  onChunk: (chunk: Buffer, position: number) => void | Promise<void>,
+): Promise<void> => {
+  const buffer = Buffer.alloc(Math.min(CHUNK_SIZE, Math.max(1, end - start)));
+  let position = start;
+  while (position < end) {
+    const { bytesRead } = await handle.read(
+      buffer,
+      0,
+      Math.min(buffer.length, end - position),
+      position,
+    );
+    if (bytesRead === 0) {
+      break;
+    }
+    await onChunk(buffer.subarray(0, bytesRead), position);
+    position += bytesRead;
+  }
+};
+
+const buildLineIndex = async (
+  filePath: string,
+  stats: { size: number; mtimeMs: number },
+): Promise<LineIndex | null> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(3);
+    await handle.read(head, 0, 3, 0);
+    if (
+      (head[0] === 0xff && head[1] === 0xfe) ||
+      (head[0] === 0xfe && head[1] === 0xff)
+    ) {
+      // UTF-16 line breaks are two bytes wide
+      return null;
+    }
+    const hasBom = head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf;
+
+    const checkpoints = [hasBom ? 3 : 0];
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    let validUtf8 = true;
+    let newlines = 0;
+    let crlf = 0;
+    let previousByte = -1;
+    const utf8Hasher = createContentHasher(hasBom ? 'utf8-bom' : 'utf8');
+
+    await readChunks(handle, 0, stats.size, (chunk, position) => {
+      for (
+        let index = chunk.indexOf(NEWLINE);
+        index !== -1;
+        index = chunk.indexOf(NEWLINE, index + 1)
+      ) {
+        newlines++;
+        if ((index > 0 ? chunk[index - 1] : previousByte) === CARRIAGE_RETURN) {
+          crlf++;
+        }
+        if (newlines % LINE_INDEX_INTERVAL === 0) {
+          checkpoints.push(position + index + 1);
+        }
+      }
+      previousByte = chunk[chunk.length - 1];
+      if (validUtf8) {
+        try {
+          decoder.decode(chunk, { stream: true });
+        } catch {
+          validUtf8 = false;
+        }
+      }
+      utf8Hasher.update(chunk);
+    });
+    if (validUtf8) {
+      try {
+        decoder.decode();
+      } catch {
+        validUtf8 = false;
+      }
+    }
+
+    const encoding: StreamableEncoding = hasBom
+      ? 'utf8-bom'
+      : validUtf8
+        ? 'utf8'
+        : 'latin1';
+    let hash = utf8Hasher.digest();
+    if (encoding === 'latin1') {
+      const latin1Hasher = createContentHasher('latin1');
+      await readChunks(handle, 0, stats.size, (chunk) =>
+        latin1Hasher.update(chunk),
+      );
+      hash = latin1Hasher.digest();
+    }
+
+    return {
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      encoding,
+      lineEnding:
+        newlines === 0
+          ? 'none'
+          : crlf === 0
+            ? 'lf'
+            : crlf === newlines
+              ? 'crlf'
+              : 'mixed',
+      lineCount: newlines + 1,
+      checkpoints,
+      hash,
+    };
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Returns the line index of a file, building it with a single pass over the
+ * file unless an index of the file as it is now is cached. Resolves to `null`
+ * for UTF-16 files, which cannot be read line by line.
+ */
+export async function getLineIndex(
+  filePath: string,
+): Promise<LineIndex | null> {
+  const stats = await fs.stat(filePath);
+  const cached = cache.get(filePath);
+  if (
+    cached &&
+    cached.size === stats.size &&
+    cached.mtimeMs === stats.mtimeMs
+  ) {
+    // Move to the end, the most recently used position
+    cache.delete(filePath);
+    cache.set(filePath, cached);
+    return cached;
+  }
+
+  const index = await buildLineIndex(filePath, stats);
+  cache.delete(filePath);
+  if (index) {
+    cache.set(filePath, index);
+    if (cache.size > MAX_CACHED_INDEXES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  return index;
+}
+
+/**
+ * Drops the cached index of a file after writing it. Indexes are also
+ * rebuilt when a file's size or modification time changes.
+ */
+export function invalidateLineIndex(filePath: string): void {
+  cache.delete(filePath);
+}
+
+/**
+ * Finds the byte offset where line `line` (1-based) starts.
+ */
+const findLineStart = async (
+  handle: fs.FileHandle,
+  index: LineIndex,
+  line: number,
+): Promise<number> => {
+  const checkpoint = Math.floor((line - 1) / LINE_INDEX_INTERVAL);
+  let remaining = line - 1 - checkpoint * LINE_INDEX_INTERVAL;
+  let start = index.checkpoints[checkpoint];
+  if (remaining === 0) {
+    return start;
+  }
+  await readChunks(handle, start, index.size, (chunk, position) => {
+    if (remaining === 0) {
+      return;
+    }
+    for (
+      let offset = chunk.indexOf(NEWLINE);
+      offset !== -1;
+      offset = chunk.indexOf(NEWLINE, offset + 1)
+    ) {
+      if (--remaining === 0) {
+        start = position + offset + 1;
+        return;
+      }
+    }
+  });
+  return start;
+};
+
+/**
+ * Reads lines `firstLine` to `lastLine` (1-based, inclusive) of an indexed
+ * file, keeping their carriage returns like `content.split('\n')`. Lines
+ * longer than `maxLineBytes` are cut, so memory stays bounded whatever the
+ * file holds.
+ */
+export async function* readLines(
+  filePath: string,
+  index: LineIndex,
+  firstLine: number,
+  lastLine: number,
+  maxLineBytes: number = Infinity,
+): AsyncGenerator<string> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const decode = (parts: Buffer[]) =>
+      Buffer.concat(parts).toString(
+        index.encoding === 'latin1' ? 'latin1' : 'utf8',
+      );
+    const buffer = Buffer.alloc(CHUNK_SIZE);
+    let position = await findLineStart(handle, index, firstLine);
+    let line = firstLine;
+    let parts: Buffer[] = [];
+    let length = 0;
+
+    while (line <= lastLine) {
+      const { bytesRead } = await handle.read(
+        buffer,
+        0,
+        buffer.length,
+        position,
+      );
+      if (bytesRead === 0) {
+        // The last line has no line break after it
+        yield decode(parts);
+        return;
+      }
+      position += bytesRead;
+
+      const chunk = buffer.subarray(0, bytesRead);
+      let start = 0;
+      while (start <= chunk.length) {
+        const newline = chunk.indexOf(NEWLINE, start);
+        const end = newline === -1 ? chunk.length : newline;
+        if (length < maxLineBytes && end > start) {
+          const part = chunk.subarray(
+            start,
+            Math.min(end, start + maxLineBytes - length),
+          );
+          parts.push(Buffer.from(part));
+          length += part.length;
+        }
+        if (newline === -1) {
+          break;
+        }
+        yield decode(parts);
+        parts = [];
+        length = 0;
+        if (++line > lastLine) {
+          return;
+        }
+        start = newline + 1;
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Inserts `text` after line `insertLine` (0 inserts at the top) of an indexed
+ * file without reading it into memory, with the same result as `insertAtLine`
+ * followed by `matchLineEndings`. The file is rewritten atomically. Returns
+ * the hash of the new content.
+ */
+export async function insertLines(
+  filePath: string,
+  index: LineIndex,
+  insertLine: number,
+  text: string,
+): Promise<string> {
+  if (insertLine < 0 || insertLine > index.lineCount) {
+    throw new Error(
+      `Invalid line number: ${insertLine}. File has ${index.lineCount} lines.`,
+    );
+  }
+
+  const lineEnding =
+    index.lineEnding === 'lf' || index.lineEnding === 'crlf'
+      ? index.lineEnding
+      : undefined;
+  const inserted = lineEnding ? convertLineEndings(text, lineEnding) : text;
+  const eol = lineEnding === 'crlf' ? '\r\n' : '\n';
+  const encode = (value: string) =>
+    encodeText(value, index.encoding === 'latin1' ? 'latin1' : 'utf8');
+
+  const source = await fs.open(filePath, 'r');
+  try {
+    const splitAt =
+      insertLine === index.lineCount
+        ? index.size
+        : await findLineStart(source, index, insertLine + 1);
+    const insertedBytes =
+      insertLine === index.lineCount
+        ? encode(`${eol}${inserted}`)
+        : encode(`${inserted}${eol}`);
+
+    const hasher = createContentHasher(index.encoding);
+    await writeFileAtomic(filePath, async (target) => {
+      const copy = (start: number, end: number) =>
+        readChunks(source, start, end, async (chunk) => {
+          hasher.update(chunk);
+          await target.write(chunk);
+        });
+      await copy(0, splitAt);
+      hasher.update(insertedBytes);
+      await target.write(insertedBytes);
+      await copy(splitAt, index.size);
+    });
+    invalidateLineIndex(filePath);
+    return hasher.digest();
+  } finally {
+    await source.close();
+  }
+}
@@ -0,0 +1,324 @@
+import { splitLines } from './diff.js';
+
+export type HunkLine = {
+  type: ' ' | '-' | '+';
+  /** The line including its `\n`, unless marked "No newline at end of file". */
+  line: string;
+};
+
+export type Hunk = {
+  /** 1-based start line in the old file, `undefined` for a bare `@@ @@`. */
+  oldStart?: number;
+  header: string;
+  lines: HunkLine[];
+};
+
+export type FilePatch = {
+  /** `null` when the patch creates the file (`--- /dev/null`). */
+  oldPath: string | null;
+  /** `null` when the patch deletes the file (`+++ /dev/null`). */
+  newPath: string | null;
+  /** Set when git `rename from` / `rename to` headers mark a rename. */
+  rename?: boolean;
+  hunks: Hunk[];
+};
+
+export type HunkResult = {
+  hunk: Hunk;
+  applied: boolean;
+  /** Lines between the expected and the actual position. */
+  offset: number;
+  /** Context lines that had to be ignored to find a match. */
+  fuzz: number;
+};
+
+export type ApplyHunksOptions = {
+  /** Context lines that may be ignored at each end of a hunk (default 2). */
+  fuzz?: number;
+  /** How far from its expected position a hunk may be found (default any). */
+  maxOffset?: number;
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const parseHeaderPath = (line: string): string | null => {
+  // Drop the "--- " / "+++ " prefix and any trailing timestamp
+  const filePath = line.slice(4).split('\t')[0].trim();
+  return filePath === '/dev/null' ? null : filePath;
+};
+
+const isHunkLine = (line: string | undefined): boolean =>
+  line !== undefined && /^[ +\-\\]/.test(line);
+
+// Without line counts, a file header is where the hunk ends
+const isBareHunkBodyLine = (line: string | undefined): boolean =>
+  isHunkLine(line) && !/^(---|\+\+\+) /.test(line!);
+
+/**
+ * Parses a unified diff touching one or more files. Lines outside of file
+ * sections (`diff --git`, `index`, commentary) are ignored, except for git
+ * `rename from` / `rename to` headers. Hunk line counts are used when
+ * present; a bare `@@ @@` header reads until the next line that is not part
+ * of a hunk.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  // Rename headers of the current `diff --git` section
+  let rename: { from?: string; to?: string } = {};
+  const flushRename = () => {
+    // A pure rename has no "--- " / "+++ " lines
+    if (rename.from !== undefined && rename.to !== undefined) {
+      patches.push({
+        oldPath: rename.from,
+        newPath: rename.to,
+        rename: true,
+        hunks: [],
+      });
+    }
+    rename = {};
+  };
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].startsWith('diff --git ')) {
+      flushRename();
+    } else if (lines[i].startsWith('rename from ')) {
+      rename.from = lines[i].slice('rename from '.length);
+    } else if (lines[i].startsWith('rename to ')) {
+      rename.to = lines[i].slice('rename to '.length);
+    }
+    if (!lines[i].startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      i++;
+      continue;
+    }
+
+    let oldPath = parseHeaderPath(lines[i]);
+    let newPath = parseHeaderPath(lines[i + 1]);
+    // Git style a/ b/ prefixes
+    if (
+      (oldPath === null || oldPath.startsWith('a/')) &&
+      (newPath === null || newPath.startsWith('b/'))
+    ) {
+      oldPath = oldPath && oldPath.slice(2);
+      newPath = newPath && newPath.slice(2);
+    }
+    if (oldPath === null && newPath === null) {
+      throw new Error(
+        `Invalid patch: both paths are /dev/null (line ${i + 1})`,
+      );
+    }
+    i += 2;
+
+    const hunks: Hunk[] = [];
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const header = lines[i];
+      const match = HUNK_HEADER.exec(header);
+      let oldRemaining = match ? Number(match[2] ?? 1) : Infinity;
+      let newRemaining = match ? Number(match[4] ?? 1) : Infinity;
+      const hunk: Hunk = {
+        oldStart: match ? Number(match[1]) : undefined,
+        header,
+        lines: [],
+      };
+      i++;
+
+      while (i < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+        let line = lines[i];
+        if (line.startsWith('\\')) {
+          // "\ No newline at end of file" applies to the previous line
+          const previous = hunk.lines[hunk.lines.length - 1];
+          if (previous) {
+            previous.line = previous.line.replace(/\n$/, '');
+          }
+          i++;
+          continue;
+        }
+        if (line === '') {
+          // Editors often strip the space of blank context lines
+          if (!match && !isBareHunkBodyLine(lines[i + 1])) {
+            break;
+          }
+          line = ' ';
+        } else if (match ? !isHunkLine(line) : !isBareHunkBodyLine(line)) {
+          break;
+        }
+
+        const type = line[0] as HunkLine['type'];
+        hunk.lines.push({ type, line: `${line.slice(1)}\n` });
+        if (type !== '+') {
+          oldRemaining--;
+        }
+        if (type !== '-') {
+          newRemaining--;
+        }
+        i++;
+      }
+
+      // A trailing marker directly after the counted lines
+      if (lines[i]?.startsWith('\\')) {
+        const previous = hunk.lines[hunk.lines.length - 1];
+        if (previous) {
+          previous.line = previous.line.replace(/\n$/, '');
+        }
+        i++;
+      }
+
+      if (match && (oldRemaining > 0 || newRemaining > 0)) {
+        throw new Error(`Invalid patch: hunk "${header}" is truncated`);
+      }
+      hunks.push(hunk);
+    }
+
+    const isRename = rename.from !== undefined && rename.to !== undefined;
+    patches.push({
+      oldPath,
+      newPath,
+      ...(isRename && { rename: true }),
+      hunks,
+    });
+    rename = {};
+  }
+  flushRename();
+
+  if (patches.length === 0) {
+    throw new Error(
+      'Invalid patch: no file headers found (expected "--- " and "+++ " lines)',
+    );
+  }
+
+  return patches;
+}
+
+const withoutNewline = (line: string): string => line.replace(/\r?\n$/, '');
+
+const matchesAt = (
+  lines: string[],
+  pattern: string[],
+  position: number,
+): boolean =>
+  pattern.every(
+    (line, index) =>
+      withoutNewline(lines[position + index]) === withoutNewline(line),
+  );
+
+/**
+ * Finds `pattern` at `expected` or as close to it as possible, never before
+ * `minPosition`. Returns the position or `undefined`.
+ */
+const findPattern = (
+  lines: string[],
+  pattern: string[],
+  expected: number,
+  minPosition: number,
+  maxOffset: number,
+): number | undefined => {
+  const maxPosition = lines.length - pattern.length;
+  const clamped = Math.min(Math.max(expected, minPosition), maxPosition);
+  if (pattern.length === 0) {
+    return Math.abs(clamped - expected) <= maxOffset ? clamped : undefined;
+  }
+
+  const limit = Math.min(maxOffset, lines.length);
+  for (let distance = 0; distance <= limit; distance++) {
+    for (const position of distance === 0
+      ? [expected]
+      : [expected + distance, expected - distance]) {
+      if (
+        position >= minPosition &&
+        position <= maxPosition &&
+        matchesAt(lines, pattern, position)
+      ) {
+        return position;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Applies hunks in order to `content`. Each hunk is searched for at its
+ * expected line (shifted by the hunks before it), then at growing offsets,
+ * then again with up to `fuzz` context lines ignored at either end. Hunks
+ * that cannot be placed are reported as not applied and leave the content
+ * untouched. Lines are compared without their line terminator, so a patch
+ * written with `\n` applies to CRLF files too.
+ */
+export function applyHunks(
+  content: string,
+  hunks: Hunk[],
+  { fuzz = 2, maxOffset = Infinity }: ApplyHunksOptions = {},
+): { content: string; results: HunkResult[] } {
+  const lines = splitLines(content);
+  const results: HunkResult[] = [];
+  let delta = 0;
+  let minPosition = 0;
+
+  for (const hunk of hunks) {
+    const leading = hunk.lines.findIndex((line) => line.type !== ' ');
+    const trailing = [...hunk.lines]
+      .reverse()
+      .findIndex((line) => line.type !== ' ');
+    const contextOnly = leading === -1;
+
+    let placed: HunkResult | undefined;
+    for (let level = 0; level <= fuzz && !placed; level++) {
+      const top = contextOnly ? 0 : Math.min(level, leading);
+      const bottom = contextOnly ? 0 : Math.min(level, trailing);
+      const body = hunk.lines.slice(top, hunk.lines.length - bottom);
+      const pattern = body
+        .filter((line) => line.type !== '+')
+        .map((line) => line.line);
+
+      // An old start of 0 means "before the first line" (e.g. new files)
+      const expected =
+        hunk.oldStart === undefined
+          ? minPosition
+          : Math.max(0, hunk.oldStart - 1) + delta + top;
+      const position = findPattern(
+        lines,
+        pattern,
+        expected,
+        minPosition,
+        hunk.oldStart === undefined ? Infinity : maxOffset,
+      );
+      if (position === undefined) {
+        continue;
+      }
+
+      // Keep the file's own context lines, take added lines from the patch
+      const replacement: string[] = [];
+      let cursor = position;
+      for (const line of body) {
+        if (line.type === ' ') {
+          replacement.push(lines[cursor++]);
+        } else if (line.type === '-') {
+          cursor++;
+        } else {
+          replacement.push(line.line);
+        }
+      }
+      lines.splice(position, pattern.length, ...replacement);
+
+      delta += replacement.length - pattern.length;
+      minPosition = position + replacement.length;
+      placed = {
+        hunk,
+        applied: true,
+        offset: position - expected,
+        fuzz: level,
+      };
+    }
+
+    results.push(placed ?? { hunk, applied: false, offset: 0, fuzz: 0 });
+  }
+
+  // A line that lost its terminator must get it back if lines follow it
+  for (let index = 0; index < lines.length - 1; index++) {
+    if (!lines[index].endsWith('\n')) {
+      lines[index] += '\n';
+    }
+  }
+
+  return { content: lines.join(''), results };
+}
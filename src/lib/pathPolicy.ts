@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { matchesGlob, toPosixPath } from './glob.js';
+
+export type PathPolicy = {
+  /** Workspace roots the editor may touch. Empty means unrestricted. */
+  roots: string[];
+  /** Glob patterns that are rejected even inside an allowed root. */
+  deny: string[];
+};
+
+let activePolicy: PathPolicy = { roots: [], deny: [] };
+
+/**
+ * Resolves symlinks for a path that may not exist yet by resolving its
+ * deepest existing ancestor and re-appending the missing segments.
+ */
+export async function realpathDeep(filePath: string): Promise<string> {
+  const resolved = path.resolve(filePath);
+  try {
+    return await fs.realpath(resolved);
+  } catch (error) {
+    const parent = path.dirname(resolved);
+    if (
+      parent === resolved ||
+      (error as NodeJS.ErrnoException).code !== 'ENOENT'
+    ) {
+      return resolved;
+    }
+    return path.join(await realpathDeep(parent), path.basename(resolved));
+  }
+}
+
+export const isWithin = (root: string, filePath: string): boolean => {
+  const relative = path.relative(root, filePath);
+  return (
+    relative === '' ||
+    (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative))
+  );
+};
+
+/**
+ * Replaces the active path policy. Roots are canonicalized so that later
+ * comparisons happen on fully resolved paths.
+ */
+export async function configurePathPolicy(
+  policy: Partial<PathPolicy>,
+): Promise<PathPolicy> {
+  const roots = await Promise.all(
+    (policy.roots ?? []).map((root) => realpathDeep(root)),
+  );
+  activePolicy = { roots, deny: [...(policy.deny ?? [])] };
+  return activePolicy;
+}
+
+export function getPathPolicy(): PathPolicy {
+  return activePolicy;
+}
+
+/**
+ * Returns the first deny pattern that matches the path or one of its
+ * ancestors. Patterns without a `/` match a single path segment (e.g.
+ * `.git` or `*.pem`), absolute patterns match the absolute path and other
+ * patterns match the path relative to the containing workspace root.
+ */
+const findDenyingPattern = (
+  filePath: string,
+  policy: PathPolicy,
+): string | undefined => {
+  const candidates: string[] = [];
+  for (let current = filePath; ; current = path.dirname(current)) {
+    candidates.push(current);
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+
+  const containingRoots = policy.roots.filter((root) =>
+    isWithin(root, filePath),
+  );
+
+  return policy.deny.find((pattern) =>
+    candidates.some((candidate) => {
+      if (!pattern.includes('/')) {
+        return matchesGlob(path.basename(candidate), pattern);
+      }
+      if (pattern.startsWith('/')) {
+        return matchesGlob(toPosixPath(candidate), pattern);
+      }
+      return containingRoots.some((root) => {
+        const relative = toPosixPath(path.relative(root, candidate));
+        return relative !== '' && matchesGlob(relative, pattern);
+      });
+    }),
+  );
+};
+
+/**
+ * Canonicalizes an absolute path (resolving `..` and symlinks) and checks it
+ * against the active policy. Returns the resolved path that commands should
+ * operate on.
+ */
+export async function resolveAllowedPath(filePath: string): Promise<string> {
+  if (!path.isAbsolute(filePath)) {
+    throw new Error('Path must be absolute');
+  }
+
+  const resolved = await realpathDeep(filePath);
+  const policy = activePolicy;
+
+  if (
+    policy.roots.length > 0 &&
+    !policy.roots.some((root) => isWithin(root, resolved))
+  ) {
+    throw new Error(
+      `Access denied: ${filePath} is outside the allowed workspace roots (${policy.roots.join(', ')})`,
+    );
+  }
+
+  const pattern = findDenyingPattern(resolved, policy);
+  if (pattern) {
+    throw new Error(
+      `Access denied: ${filePath} matches the deny pattern "${pattern}"`,
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Tells whether a canonical path matches a deny pattern of the active policy.
+ * Used to hide denied entries from listings and searches.
+ */
+export function isDeniedPath(filePath: string): boolean {
+  return findDenyingPattern(filePath, activePolicy) !== undefined;
+}
@@ -0,0 +1,341 @@
+import { constants, inflateSync } from 'zlib';
+
+export type PdfText = {
+  /** Number of pages, or 0 if the page tree could not be found. */
+  pages: number;
+  text: string;
+  /** Whether the document is encrypted, in which case no text is read. */
+  encrypted: boolean;
+  /** Compressed streams skipped as damaged or too large to decompress. */
+  unreadableStreams: number;
+};
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'operator'; value: string }
+  | { type: 'array'; value: Token[] };
+
+// Characters that end a word of a content stream
+const DELIMITERS = new Set([...'()<>[]{}/%']);
+const WHITESPACE = new Set([...' \t\r\n\f\0']);
+// A TJ adjustment this large (in thousandths of an em) is taken for a space
+const WORD_SPACING = 200;
+// A few kilobytes of Flate data can inflate to gigabytes, so streams are
+// only decompressed up to these sizes, each and all together
+const MAX_STREAM_SIZE = 16 * 1024 * 1024;
+const MAX_INFLATED_SIZE = 64 * 1024 * 1024;
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
+
+type Stream = { dictionary: string; data: Buffer };
+
+/**
+ * Finds every `stream ... endstream` in the file together with its
+ * dictionary, decompressing Flate streams. Streams with other filters
+ * (images, mostly) are skipped, and counted as unreadable when they are
+ * damaged or too large to decompress.
+ */
+const readStreams = (
+  buffer: Buffer,
+): { streams: Stream[]; unreadable: number } => {
+  const raw = buffer.toString('latin1');
+  const streams: Stream[] = [];
+  let unreadable = 0;
+  let inflatedSize = 0;
+  const pattern = />>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+    const dictionaryStart = raw.lastIndexOf(' obj', match.index);
+    const dictionary = raw.slice(
+      dictionaryStart === -1 ? 0 : dictionaryStart,
+      match.index + 2,
+    );
+    pattern.lastIndex = end;
+
+    const filters = dictionary.match(/\/[A-Za-z0-9]+Decode\b/g) ?? [];
+    if (filters.some((filter) => filter !== '/FlateDecode')) {
+      continue;
+    }
+    const data = buffer.subarray(start, end);
+    if (filters.length === 0) {
+      streams.push({ dictionary, data });
+      continue;
+    }
+    const maxOutputLength = Math.min(
+      MAX_STREAM_SIZE,
+      MAX_INFLATED_SIZE - inflatedSize,
+    );
+    if (maxOutputLength <= 0) {
+      unreadable++;
+      continue;
+    }
+    try {
+      const inflated = inflateSync(data, {
+        finishFlush: constants.Z_SYNC_FLUSH,
+        maxOutputLength,
+      });
+      inflatedSize += inflated.length;
+      streams.push({ dictionary, data: inflated });
+    } catch {
+      // A damaged or oversized stream is no reason to give up on the rest
+      // of the file
+      unreadable++;
+    }
+  }
+  return { streams, unreadable };
+};
+
+const readLiteralString = (
+  source: string,
+  start: number,
+): { value: string; end: number } => {
+  let value = '';
+  let depth = 1;
+  let index = start + 1;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '\\') {
+      const next = source[index + 1] ?? '';
+      if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(source.slice(index + 1))![0];
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        // Line continuation
+        index += next === '\r' && source[index + 2] === '\n' ? 3 : 2;
+        continue;
+      }
+      value += STRING_ESCAPES[next] ?? next;
+      index += 2;
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return { value, end: index + 1 };
+    }
+    value += char;
+    index++;
+  }
+  return { value, end: index };
+};
+
+const readHexString = (
+  source: string,
+  start: number,
+): { value: string; end: number } => {
+  const end = source.indexOf('>', start);
+  const digits = source
+    .slice(start + 1, end === -1 ? source.length : end)
+    .replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  return {
+    value: Buffer.from(padded, 'hex').toString('latin1'),
+    end: end === -1 ? source.length : end + 1,
+  };
+};
+
+/**
+ * Splits a content stream into the strings, numbers, arrays and operators
+ * that matter for text; names and dictionaries are dropped.
+ */
+const tokenize = (source: string): Token[] => {
+  const root: Token[] = [];
+  const stack: Token[][] = [root];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const tokens = stack[stack.length - 1];
+    if (WHITESPACE.has(char)) {
+      index++;
+    } else if (char === '%') {
+      const end = source.slice(index).search(/[\r\n]/);
+      index = end === -1 ? source.length : index + end;
+    } else if (char === '(') {
+      const { value, end } = readLiteralString(source, index);
+      tokens.push({ type: 'string', value });
+      index = end;
+    } else if (char === '<' && source[index + 1] === '<') {
+      index += 2;
+    } else if (char === '>' && source[index + 1] === '>') {
+      index += 2;
+    } else if (char === '<') {
+      const { value, end } = readHexString(source, index);
+      tokens.push({ type: 'string', value });
+      index = end;
+    } else if (char === '[') {
+      const array: Token[] = [];
+      tokens.push({ type: 'array', value: array });
+      stack.push(array);
+      index++;
+    } else if (char === ']') {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+      index++;
+    } else {
+      let end = index + 1;
+      while (
+        end < source.length &&
+        !WHITESPACE.has(source[end]) &&
+        !DELIMITERS.has(source[end])
+      ) {
+        end++;
+      }
+      const word = source.slice(index, end);
+      if (char === '/') {
+        // Names (fonts, resources) carry no text
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        tokens.push({ type: 'number', value: Number(word) });
+      } else {
+        tokens.push({ type: 'operator', value: word });
+      }
+      index = end === index ? index + 1 : end;
+    }
+  }
+  return root;
+};
+
+/**
+ * Decodes the bytes of a PDF string: UTF-16 when it starts with a byte order
+ * mark, otherwise one byte per character, which is right for the standard
+ * encodings of simple fonts.
+ */
+const decodePdfString = (value: string): string => {
+  if (value.startsWith('\xfe\xff')) {
+    return Buffer.from(value.slice(2), 'latin1').swap16().toString('utf16le');
+  }
+  return value;
+};
+
+/**
+ * Collects the text shown by the operators of a content stream, breaking
+ * lines where the text position moves down.
+ */
+const extractContentText = (source: string): string => {
+  let text = '';
+  let operands: Token[] = [];
+  const newline = () => {
+    if (text !== '' && !text.endsWith('\n')) {
+      text += '\n';
+    }
+  };
+  const show = (token: Token | undefined) => {
+    if (token?.type === 'string') {
+      // Characters of fonts with custom encodings come out as control codes
+      text += [...decodePdfString(token.value)]
+        .filter((char) => char === '\t' || (char >= ' ' && char !== '\x7f'))
+        .join('');
+    }
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case 'Tj':
+        show(last);
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(last);
+        break;
+      case 'TJ':
+        if (last?.type === 'array') {
+          for (const item of last.value) {
+            if (item.type === 'number' && item.value < -WORD_SPACING) {
+              text += ' ';
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD': {
+        const ty = operands[operands.length - 1];
+        if (ty?.type === 'number' && ty.value !== 0) {
+          newline();
+        } else if (!text.endsWith(' ') && !text.endsWith('\n')) {
+          text += ' ';
+        }
+        break;
+      }
+      case 'T*':
+      case 'Tm':
+      case 'ET':
+        newline();
+        break;
+    }
+    operands = [];
+  }
+  return text;
+};
+
+/**
+ * Extracts the text of a PDF without any dependencies. This covers the
+ * common case of text drawn with simple fonts in Flate-compressed or
+ * uncompressed content streams; text in embedded CID fonts (without a usable
+ * encoding) or scanned pages is not recovered, and encrypted documents are
+ * not read at all.
+ */
+export function extractPdfText(buffer: Buffer): PdfText {
+  const raw = buffer.toString('latin1');
+  const { streams, unreadable } = readStreams(buffer);
+  const countPages = (source: string) =>
+    (source.match(/\/Type\s*\/Page(?![A-Za-z])/g) ?? []).length;
+
+  // Page objects may also be packed into compressed object streams
+  const pages =
+    countPages(raw) +
+    streams
+      .filter((stream) => /\/Type\s*\/ObjStm/.test(stream.dictionary))
+      .reduce(
+        (total, stream) => total + countPages(stream.data.toString('latin1')),
+        0,
+      );
+
+  if (/\/Encrypt\b/.test(raw)) {
+    return {
+      pages,
+      text: '',
+      encrypted: true,
+      unreadableStreams: unreadable,
+    };
+  }
+
+  const text = streams
+    .filter(
+      (stream) =>
+        !/\/(Type\s*\/(ObjStm|XRef)|Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|Length1)\b/.test(
+          stream.dictionary,
+        ),
+    )
+    .map((stream) => stream.data.toString('latin1'))
+    .filter((source) => /\bBT\b/.test(source))
+    .map((source) => extractContentText(source).trim())
+    .filter((streamText) => streamText !== '')
+    .join('\n')
+    .replace(/[^\S\n]+\n/g, '\n')
+    .trim();
+
+  return { pages, text, encrypted: false, unreadableStreams: unreadable };
+}
@@ -0,0 +1,45 @@
+const pending = new Set<Promise<unknown>>();
+
+/**
+ * Wraps an async function so that calls still running can be waited for
+ * before the server shuts down, letting edits in progress finish writing.
+ */
+export function trackPending<Args extends unknown[], Result>(
+  fn: (...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result> {
+  return (...args) => {
+    const call = fn(...args);
+    const settled = call.then(
+      () => undefined,
+      () => undefined,
+    );
+    pending.add(settled);
+    void settled.then(() => pending.delete(settled));
+    return call;
+  };
+}
+
+/**
+ * Waits until every tracked call has finished, or `timeoutMs` has passed.
+ * Resolves to whether everything finished in time.
+ */
+export async function waitForPending(timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    while (pending.size > 0) {
+      const finished = await Promise.race([
+        Promise.all(pending).then(() => true),
+        timeout,
+      ]);
+      if (!finished) {
+        return false;
+      }
+    }
+    return true;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+
+import { decodeText } from './encoding.js';
+import { isBinaryContent } from './fileType.js';
+import { walkDirectory } from './fileWalker.js';
+import { matchesGlob } from './glob.js';
+
+export type SearchOptions = {
+  pattern: string;
+  /** Treat `pattern` as a regular expression instead of literal text. */
+  regex?: boolean;
+  /** Only search files matching one of these globs. */
+  include?: string[];
+  /** Skip files matching any of these globs. */
+  exclude?: string[];
+  /** Lines of context shown before and after each match. */
+  contextLines?: number;
+  /** Maximum length of the rendered results in characters. */
+  outputLimit: number;
+};
+
+export type SearchResult = {
+  text: string;
+  matchCount: number;
+  fileCount: number;
+  /** Whether the search stopped early at the output limit. */
+  truncated: boolean;
+};
+
+// Files larger than this are not searched
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Longer lines (typically minified code) are cut in the results
+const MAX_LINE_LENGTH = 500;
+
+/**
+ * Tests a path relative to the search root against a glob. Globs without a
+ * `/` match the file name at any depth, like `.gitignore` patterns.
+ */
+export function matchesPathGlob(relativePath: string, glob: string): boolean {
+  return glob.includes('/')
+    ? matchesGlob(relativePath, glob.replace(/^\//, ''))
+    : matchesGlob(relativePath.split('/').pop()!, glob);
+}
+
+const createLineMatcher = (
+  pattern: string,
+  regex: boolean,
+): ((line: string) => boolean) => {
+  if (!regex) {
+    return (line) => line.includes(pattern);
+  }
+  let regExp: RegExp;
+  try {
+    regExp = new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+  }
+  return (line) => regExp.test(line);
+};
+
+const clipLine = (line: string): string =>
+  line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}… (${line.length} chars)`
+    : line;
+
+/**
+ * Lists the files to search: `root` itself if it is a file, otherwise every
+ * file below it that passes `.gitignore`, the deny list and the globs.
+ */
+async function* candidateFiles(
+  root: string,
+  include: string[],
+  exclude: string[],
+): AsyncGenerator<string> {
+  const stats = await fs.stat(root);
+  if (!stats.isDirectory()) {
+    yield root;
+    return;
+  }
+  for await (const entry of walkDirectory(root)) {
+    if (
+      entry.type === 'file' &&
+      (include.length === 0 ||
+        include.some((glob) => matchesPathGlob(entry.relativePath, glob))) &&
+      !exclude.some((glob) => matchesPathGlob(entry.relativePath, glob))
+    ) {
+      yield entry.path;
+    }
+  }
+}
+
+/**
+ * Searches the text files under `root` line by line. Matches are rendered as
+ * `path:line: text` and context lines as `path-line- text`, with `--`
+ * between separate groups, in the style of grep. Binary and very large files
+ * are skipped. The search stops once the output limit is reached.
+ */
+export async function searchFiles(
+  root: string,
+  {
+    pattern,
+    regex = false,
+    include = [],
+    exclude = [],
+    contextLines = 0,
+    outputLimit,
+  }: SearchOptions,
+): Promise<SearchResult> {
+  if (pattern === '') {
+    throw new Error('Search pattern must not be empty');
+  }
+  const matches = createLineMatcher(pattern, regex);
+
+  const output: string[] = [];
+  let length = 0;
+  let matchCount = 0;
+  let fileCount = 0;
+
+  const append = (block: string[]): boolean => {
+    const size = block.reduce((total, line) => total + line.length + 1, 0);
+    if (length + size > outputLimit) {
+      return false;
+    }
+    output.push(...block);
+    length += size;
+    return true;
+  };
+
+  for await (const filePath of candidateFiles(root, include, exclude)) {
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats || stats.size > MAX_FILE_SIZE) {
+      continue;
+    }
+    const buffer = await fs.readFile(filePath).catch(() => null);
+    if (!buffer) {
+      continue;
+    }
+    // UTF-16 text is full of NUL bytes, recognise it by its byte order mark
+    const { content, encoding } = decodeText(buffer);
+    if (!encoding.startsWith('utf16') && isBinaryContent(buffer)) {
+      continue;
+    }
+
+    const lines = content.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    const matchedLines = lines
+      .map((line, index) => (matches(line) ? index : -1))
+      .filter((index) => index !== -1);
+    if (matchedLines.length === 0) {
+      continue;
+    }
+
+    // Merge the context windows of nearby matches into groups
+    const groups: { start: number; end: number }[] = [];
+    for (const index of matchedLines) {
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(lines.length - 1, index + contextLines);
+      const last = groups[groups.length - 1];
+      if (last && start <= last.end + 1) {
+        last.end = end;
+      } else {
+        groups.push({ start, end });
+      }
+    }
+
+    const matched = new Set(matchedLines);
+    for (const [groupIndex, { start, end }] of groups.entries()) {
+      const block: string[] = [];
+      if (contextLines > 0 && (groupIndex > 0 || output.length > 0)) {
+        block.push('--');
+      }
+      for (let index = start; index <= end; index++) {
+        const separator = matched.has(index) ? ':' : '-';
+        block.push(
+          `${filePath}${separator}${index + 1}${separator} ${clipLine(lines[index])}`,
+        );
+      }
+      if (!append(block)) {
+        return {
+          text: output.join('\n'),
+          matchCount,
+          fileCount,
+          truncated: true,
+        };
+      }
+      if (groupIndex === 0) {
+        fileCount++;
+      }
+      matchCount += [...matched].filter((i) => i >= start && i <= end).length;
+    }
+  }
+
+  return { text: output.join('\n'), matchCount, fileCount, truncated: false };
+}
@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+import {
+  BUILTIN_EDITOR_VERSIONS,
+  BuiltinEditorVersion,
+} from '../tools/builtinTextEditor.js';
+
+import { VALIDATION_MODES, ValidationMode } from './syntaxCheck.js';
+
+import type { DiskHistoryOptions } from './historyStore.js';
+
+export const TRANSPORTS = ['stdio', 'http', 'sse'] as const;
+
+export type TransportKind = (typeof TRANSPORTS)[number];
+
+export type ServerOptions = {
+  roots: string[];
+  deny: string[];
+  history: Partial<DiskHistoryOptions>;
+  /** Default maximum length of the content returned by a command. */
+  outputLimit?: number;
+  /**
+   * Built-in text editor revision to emulate instead of serving the
+   * extended `text_editor` tool.
+   */
+  toolVersion?: BuiltinEditorVersion;
+  transport: TransportKind;
+  /** Address the `http` and `sse` transports listen on. */
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients must send; no authentication if unset. */
+  authToken?: string;
+  /** Also serve the `text_editor_admin` tool to list and clear sessions. */
+  admin: boolean;
+  /** File every change is appended to as JSON Lines. */
+  auditLog?: string;
+  /** How edits are validated when calls do not say. */
+  validate: ValidationMode;
+};
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+
+const splitList = (value: string | undefined, separator: string): string[] =>
+  (value ?? '')
+    .split(separator)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+const parsePositiveNumber = (
+  name: string,
+  value: string | undefined,
+): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Reads server options from command line flags, falling back to environment
+ * variables. Flags and environment values are combined for list options.
+ *
+ * - `--root <dir>` / `TEXT_EDITOR_ROOTS` (separated by `path.delimiter`)
+ * - `--deny <glob>` / `TEXT_EDITOR_DENY` (comma separated)
+ * - `--history-dir <dir>` / `TEXT_EDITOR_HISTORY_DIR` (persist undo history)
+ * - `--history-max-entries <n>`, `--history-max-age-days <n>`,
+ *   `--history-max-mb <n>` (caps for the on-disk history)
+ * - `--output-limit <chars>` / `TEXT_EDITOR_OUTPUT_LIMIT`
+ * - `--tool-version <version>` / `TEXT_EDITOR_TOOL_VERSION` (e.g.
+ *   `text_editor_20250429`)
+ * - `--transport stdio|http|sse` / `TEXT_EDITOR_TRANSPORT` (default stdio)
+ * - `--host <address>` / `TEXT_EDITOR_HOST`, `--port <n>` / `TEXT_EDITOR_PORT`
+ * - `--auth-token <token>` / `TEXT_EDITOR_AUTH_TOKEN` (bearer token for the
+ *   HTTP transports; prefer the environment variable, flags are visible to
+ *   other local users)
+ * - `--admin` / `TEXT_EDITOR_ADMIN=1` (serve the session admin tool)
+ * - `--audit-log <file>` / `TEXT_EDITOR_AUDIT_LOG` (append every change to a
+ *   JSON Lines file)
+ * - `--validate off|report|strict` / `TEXT_EDITOR_VALIDATE` (syntax checks
+ *   after edits, default off)
+ */
+export function parseServerOptions(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): ServerOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      root: { type: 'string', multiple: true },
+      deny: { type: 'string', multiple: true },
+      'history-dir': { type: 'string' },
+      'history-max-entries': { type: 'string' },
+      'history-max-age-days': { type: 'string' },
+      'history-max-mb': { type: 'string' },
+      'output-limit': { type: 'string' },
+      'tool-version': { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'auth-token': { type: 'string' },
+      admin: { type: 'boolean' },
+      'audit-log': { type: 'string' },
+      validate: { type: 'string' },
+    },
+    strict: true,
+  });
+
+  const roots = [
+    ...splitList(env.TEXT_EDITOR_ROOTS, path.delimiter),
+    ...(values.root ?? []),
+  ].map((root) => path.resolve(root));
+
+  const deny = [
+    ...splitList(env.TEXT_EDITOR_DENY, ','),
+    ...(values.deny ?? []),
+  ];
+
+  const historyDir = values['history-dir'] ?? env.TEXT_EDITOR_HISTORY_DIR;
+  const maxAgeDays = parsePositiveNumber(
+    'history-max-age-days',
+    values['history-max-age-days'],
+  );
+  const maxMb = parsePositiveNumber('history-max-mb', values['history-max-mb']);
+
+  const history: Partial<DiskHistoryOptions> = {
+    dir: historyDir ? path.resolve(historyDir) : undefined,
+    maxEntriesPerFile: parsePositiveNumber(
+      'history-max-entries',
+      values['history-max-entries'],
+    ),
+    maxAgeMs: maxAgeDays && maxAgeDays * 24 * 60 * 60 * 1000,
+    maxTotalBytes: maxMb && maxMb * 1024 * 1024,
+  };
+
+  const outputLimit = parsePositiveNumber(
+    'output-limit',
+    values['output-limit'] ?? env.TEXT_EDITOR_OUTPUT_LIMIT,
+  );
+
+  const toolVersion = values['tool-version'] ?? env.TEXT_EDITOR_TOOL_VERSION;
+  if (
+    toolVersion !== undefined &&
+    !(BUILTIN_EDITOR_VERSIONS as readonly string[]).includes(toolVersion)
+  ) {
+    throw new Error(
+      `--tool-version must be one of ${BUILTIN_EDITOR_VERSIONS.join(', ')}, got "${toolVersion}"`,
+    );
+  }
+
+  const transport = values.transport ?? env.TEXT_EDITOR_TRANSPORT ?? 'stdio';
+  if (!(TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(
+      `--transport must be one of ${TRANSPORTS.join(', ')}, got "${transport}"`,
+    );
+  }
+
+  const auditLog = values['audit-log'] ?? env.TEXT_EDITOR_AUDIT_LOG;
+
+  const validate = values.validate ?? env.TEXT_EDITOR_VALIDATE ?? 'off';
+  if (!(VALIDATION_MODES as readonly string[]).includes(validate)) {
+    throw new Error(
+      `--validate must be one of ${VALIDATION_MODES.join(', ')}, got "${validate}"`,
+    );
+  }
+
+  const portValue = values.port ?? env.TEXT_EDITOR_PORT;
+  const port = portValue === undefined ? DEFAULT_PORT : Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`--port must be a port number, got "${portValue}"`);
+  }
+
+  return {
+    roots,
+    deny,
+    history,
+    outputLimit: outputLimit && Math.floor(outputLimit),
+    toolVersion: toolVersion as BuiltinEditorVersion | undefined,
+    transport: transport as TransportKind,
+    host: values.host ?? env.TEXT_EDITOR_HOST ?? DEFAULT_HOST,
+    port,
+    authToken:
+      (values['auth-token'] ?? env.TEXT_EDITOR_AUTH_TOKEN) || undefined,
+    admin:
+      values.admin ??
+      ['1', 'true'].includes(env.TEXT_EDITOR_ADMIN?.toLowerCase() ?? ''),
+    auditLog: auditLog ? path.resolve(auditLog) : undefined,
+    validate: validate as ValidationMode,
+  };
+}
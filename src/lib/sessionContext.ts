@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Session of calls made without an MCP session, such as over stdio. Its
+ * state persists in the history directory itself, as it always has.
+ */
+export const DEFAULT_SESSION_ID = 'default';
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` with `sessionId` as the current session, so that edit history
+ * and view tracking looked up anywhere below it belong to that session.
+ */
+export function runInSession<T>(sessionId: string | undefined, fn: () => T): T {
+  return storage.run(sessionId ?? DEFAULT_SESSION_ID, fn);
+}
+
+/**
+ * The session of the call being handled, or the default session outside
+ * any call.
+ */
+export function getSessionId(): string {
+  return storage.getStore() ?? DEFAULT_SESSION_ID;
+}
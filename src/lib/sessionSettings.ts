@@ -0,0 +1,49 @@
+import { getSessionId } from './sessionContext.js';
+
+import type { ValidationMode } from './syntaxCheck.js';
+
+/**
+ * Defaults a session uses instead of the server's for the calls that do not
+ * pass their own. Workspace roots and deny patterns are not among them: they
+ * guard the server and apply to every session alike.
+ */
+export type SessionSettings = {
+  outputLimit?: number;
+  validate?: ValidationMode;
+};
+
+const settingsBySession = new Map<string, SessionSettings>();
+
+/**
+ * The settings a session has changed; the current session by default.
+ */
+export function getSessionSettings(
+  sessionId: string = getSessionId(),
+): SessionSettings {
+  return settingsBySession.get(sessionId) ?? {};
+}
+
+/**
+ * Changes the settings given for a session, keeping the others, and returns
+ * all of them.
+ */
+export function updateSessionSettings(
+  sessionId: string,
+  update: SessionSettings,
+): SessionSettings {
+  const settings = {
+    ...getSessionSettings(sessionId),
+    ...Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined),
+    ),
+  };
+  settingsBySession.set(sessionId, settings);
+  return settings;
+}
+
+/**
+ * Drops the settings of a session, which goes back to the server's.
+ */
+export function forgetSessionSettings(sessionId: string): void {
+  settingsBySession.delete(sessionId);
+}
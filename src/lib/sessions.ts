@@ -0,0 +1,90 @@
+import { forgetAuditLog } from './auditLog.js';
+import { countSeenFiles, forgetSession } from './fileTracker.js';
+import { clearEditHistory } from './historyStore.js';
+import { DEFAULT_SESSION_ID, runInSession } from './sessionContext.js';
+import {
+  forgetSessionSettings,
+  getSessionSettings,
+  SessionSettings,
+} from './sessionSettings.js';
+
+export type SessionInfo = {
+  id: string;
+  createdAt: number;
+  lastActiveAt: number;
+  /** Number of tool calls made in the session. */
+  calls: number;
+};
+
+// Sessions that have made at least one tool call, by id
+const sessions = new Map<string, SessionInfo>();
+
+/**
+ * Runs a tool call in the state of its MCP session, or of the default
+ * session for calls without one (stdio).
+ */
+export function withSession<T>(
+  sessionId: string | undefined,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const id = sessionId ?? DEFAULT_SESSION_ID;
+  const now = Date.now();
+  const info = sessions.get(id) ?? {
+    id,
+    createdAt: now,
+    lastActiveAt: now,
+    calls: 0,
+  };
+  info.lastActiveAt = now;
+  info.calls++;
+  sessions.set(id, info);
+  return runInSession(id, fn);
+}
+
+/**
+ * Lists the sessions that have used the editor, most recently active first.
+ */
+export function listSessions(): (SessionInfo & {
+  viewedFiles: number;
+  settings: SessionSettings;
+})[] {
+  return [...sessions.values()]
+    .sort((a, b) => b.lastActiveAt - a.lastActiveAt)
+    .map((info) => ({
+      ...info,
+      viewedFiles: countSeenFiles(info.id),
+      settings: getSessionSettings(info.id),
+    }));
+}
+
+/**
+ * Tells whether a session has used the editor.
+ */
+export function hasSession(sessionId: string): boolean {
+  return sessions.has(sessionId);
+}
+
+/**
+ * Discards the edit history and view tracking of a session, which keeps
+ * working with a clean slate. Resolves to whether the session was known.
+ */
+export async function clearSession(sessionId: string): Promise<boolean> {
+  if (!sessions.has(sessionId)) {
+    return false;
+  }
+  forgetSession(sessionId);
+  await clearEditHistory(sessionId);
+  return true;
+}
+
+/**
+ * Drops everything kept for a session once its client has disconnected.
+ * Entries already written to the audit log file stay there.
+ */
+export async function endSession(sessionId: string): Promise<void> {
+  forgetSession(sessionId);
+  forgetAuditLog(sessionId);
+  forgetSessionSettings(sessionId);
+  await clearEditHistory(sessionId);
+  sessions.delete(sessionId);
+}
@@ -0,0 +1,418 @@
+import * as path from 'path';
+
+import { parse as parseToml, TomlError } from 'smol-toml';
+import { parseAllDocuments } from 'yaml';
+
+import { getSessionSettings } from './sessionSettings.js';
+
+export type SyntaxLanguage =
+  | 'json'
+  | 'jsonc'
+  | 'yaml'
+  | 'toml'
+  | 'javascript'
+  | 'typescript';
+
+/** A parse error, at a 1-based line and column. */
+export type SyntaxIssue = {
+  line: number;
+  column: number;
+  message: string;
+};
+
+/**
+ * How edits are validated: not at all, by reporting the syntax errors left
+ * in edited files, or by also refusing edits that introduce new ones.
+ */
+export const VALIDATION_MODES = ['off', 'report', 'strict'] as const;
+
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+/** A syntax error left in an edited file. */
+export type FileSyntaxIssue = SyntaxIssue & { path: string };
+
+type TypeScriptModule = typeof import('typescript');
+
+// Errors reported per file; one mistake can make a parser report dozens
+const MAX_ISSUES = 20;
+
+const EXTENSION_LANGUAGES: Record<string, SyntaxLanguage> = {
+  '.json': 'json',
+  '.jsonc': 'jsonc',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascript',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescript',
+};
+
+// JSON files that editors and tools read with comments allowed
+const JSONC_FILE_NAME = /^(tsconfig|jsconfig)(\..*)?\.json$/;
+
+/**
+ * Tells which language a file is checked as from its name, or `undefined`
+ * if it is not checked.
+ */
+export function detectSyntaxLanguage(
+  filePath: string,
+): SyntaxLanguage | undefined {
+  const name = path.basename(filePath).toLowerCase();
+  if (JSONC_FILE_NAME.test(name)) {
+    return 'jsonc';
+  }
+  const extension = path.extname(name);
+  return Object.hasOwn(EXTENSION_LANGUAGES, extension)
+    ? EXTENSION_LANGUAGES[extension]
+    : undefined;
+}
+
+/**
+ * Converts an offset into `content` to a 1-based line and column.
+ */
+const positionAt = (
+  content: string,
+  offset: number,
+): Pick<SyntaxIssue, 'line' | 'column'> => {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const JSON_NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const JSON_ESCAPE = /\\(["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+
+/**
+ * Finds where JSON that `JSON.parse` rejected goes wrong. V8's messages
+ * give no position for some errors and quote the text around it, so the
+ * content is scanned again to get a position and a message that only
+ * depends on the error itself.
+ */
+const findJsonError = (content: string): SyntaxIssue => {
+  let offset = 0;
+
+  const fail = (message: string): never => {
+    throw Object.assign(
+      new Error(
+        offset < content.length ? message : 'Unexpected end of JSON input',
+      ),
+      { offset },
+    );
+  };
+  const skipWhitespace = () => {
+    while (/[ \t\n\r]/.test(content[offset] ?? '')) {
+      offset++;
+    }
+  };
+  const expect = (char: string, message: string) => {
+    skipWhitespace();
+    if (content[offset] !== char) {
+      fail(message);
+    }
+    offset++;
+  };
+
+  const parseString = () => {
+    offset++;
+    for (;;) {
+      const char = content[offset];
+      if (char === '"') {
+        offset++;
+        return;
+      }
+      if (char === undefined || char === '\n') {
+        fail('Unterminated string in JSON');
+      } else if (char === '\\') {
+        JSON_ESCAPE.lastIndex = offset;
+        if (!JSON_ESCAPE.test(content)) {
+          fail('Bad escaped character in JSON');
+        }
+        offset = JSON_ESCAPE.lastIndex;
+      } else if (char < ' ') {
+        fail('Bad control character in string literal in JSON');
+      } else {
+        offset++;
+      }
+    }
+  };
+
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = content[offset];
+    if (char === '{') {
+      offset++;
+      skipWhitespace();
+      if (content[offset] === '}') {
+        offset++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (content[offset] !== '"') {
+          fail('Expected double-quoted property name');
+        }
+        parseString();
+        expect(':', "Expected ':' after property name");
+        parseValue();
+        skipWhitespace();
+        if (content[offset] === '}') {
+          offset++;
+          return;
+        }
+        expect(',', "Expected ',' or '}' after property value");
+      }
+    }
+    if (char === '[') {
+      offset++;
+      skipWhitespace();
+      if (content[offset] === ']') {
+        offset++;
+        return;
+      }
+      for (;;) {
+        parseValue();
+        skipWhitespace();
+        if (content[offset] === ']') {
+          offset++;
+          return;
+        }
+        expect(',', "Expected ',' or ']' after array element");
+      }
+    }
+    if (char === '"') {
+      parseString();
+      return;
+    }
+    JSON_NUMBER.lastIndex = offset;
+    if (/[-\d]/.test(char ?? '') && JSON_NUMBER.test(content)) {
+      offset = JSON_NUMBER.lastIndex;
+      return;
+    }
+    const literal = ['true', 'false', 'null'].find((word) =>
+      content.startsWith(word, offset),
+    );
+    if (literal) {
+      offset += literal.length;
+      return;
+    }
+    fail(`Unexpected token '${char}'`);
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (offset < content.length) {
+      fail('Unexpected non-whitespace character after JSON');
+    }
+  } catch (error) {
+    if ('offset' in (error as object)) {
+      const { message, offset: errorOffset } = error as Error & {
+        offset: number;
+      };
+      return { ...positionAt(content, errorOffset), message };
+    }
+    // Nesting too deep to scan; JSON.parse has no such limit
+  }
+  return {
+    ...positionAt(content, content.length),
+    message: 'Invalid JSON',
+  };
+};
+
+const checkJson = (content: string): SyntaxIssue[] => {
+  try {
+    JSON.parse(content);
+    return [];
+  } catch {
+    return [findJsonError(content)];
+  }
+};
+
+const checkYaml = (content: string): SyntaxIssue[] =>
+  parseAllDocuments(content).flatMap((document) =>
+    document.errors.map((error) => ({
+      line: error.linePos?.[0].line ?? 1,
+      column: error.linePos?.[0].col ?? 1,
+      message: error.message.replace(/ at line \d+, column \d+:.*$/s, ''),
+    })),
+  );
+
+const checkToml = (content: string): SyntaxIssue[] => {
+  try {
+    parseToml(content);
+    return [];
+  } catch (error) {
+    if (!(error instanceof TomlError)) {
+      throw error;
+    }
+    return [
+      {
+        line: error.line,
+        column: error.column,
+        message: error.message
+          .split('\n')[0]
+          .replace(/^Invalid TOML document: /, ''),
+      },
+    ];
+  }
+};
+
+let typescript: Promise<TypeScriptModule | undefined> | undefined;
+let defaultValidation: ValidationMode = 'off';
+
+/**
+ * Sets how edits are validated when calls do not pass a mode, in sessions
+ * that have not chosen their own.
+ */
+export function configureValidation(mode: ValidationMode = 'off'): void {
+  defaultValidation = mode;
+}
+
+/**
+ * How the current session validates edits when calls do not pass a mode.
+ */
+export function getValidationMode(): ValidationMode {
+  return getSessionSettings().validate ?? defaultValidation;
+}
+
+/**
+ * Loads the TypeScript compiler on first use. It is optional: without it,
+ * JavaScript, TypeScript and JSON with comments are not checked.
+ */
+const loadTypeScript = (): Promise<TypeScriptModule | undefined> => {
+  typescript ??= import('typescript').then(
+    (module) => module.default,
+    () => undefined,
+  );
+  return typescript;
+};
+
+const checkWithTypeScript = (
+  ts: TypeScriptModule,
+  filePath: string,
+  content: string,
+  language: SyntaxLanguage,
+): SyntaxIssue[] => {
+  const diagnostics =
+    language === 'jsonc'
+      ? // Comments are fine in these files, like in the tools that read them
+        [ts.parseConfigFileTextToJson(filePath, content).error].filter(
+          (diagnostic) => diagnostic !== undefined,
+        )
+      : (ts.transpileModule(content, {
+          fileName: filePath,
+          reportDiagnostics: true,
+        }).diagnostics ?? []);
+  return diagnostics.map((diagnostic) => ({
+    ...positionAt(content, diagnostic.start ?? 0),
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  }));
+};
+
+/**
+ * Parses file content in the language its name implies and lists the
+ * syntax errors found. Resolves to `undefined` when the file's language is
+ * not checked or its parser is not available.
+ */
+export async function checkSyntax(
+  filePath: string,
+  content: string,
+): Promise<SyntaxIssue[] | undefined> {
+  const language = detectSyntaxLanguage(filePath);
+  let issues: SyntaxIssue[];
+  switch (language) {
+    case 'json':
+      issues = checkJson(content);
+      break;
+    case 'yaml':
+      issues = checkYaml(content);
+      break;
+    case 'toml':
+      issues = checkToml(content);
+      break;
+    case 'jsonc':
+    case 'javascript':
+    case 'typescript': {
+      const ts = await loadTypeScript();
+      if (!ts) {
+        return undefined;
+      }
+      issues = checkWithTypeScript(ts, filePath, content, language);
+      break;
+    }
+    default:
+      return undefined;
+  }
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * Returns the issues of `after` that `before` did not have, telling issues
+ * apart by message since edits move them to other lines.
+ */
+export function findNewIssues(
+  before: SyntaxIssue[],
+  after: SyntaxIssue[],
+): SyntaxIssue[] {
+  const remaining = before.map((issue) => issue.message);
+  return after.filter((issue) => {
+    const index = remaining.indexOf(issue.message);
+    if (index === -1) {
+      return true;
+    }
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Formats issues one per line, indented, for error and response messages.
+ */
+export function formatSyntaxIssues(issues: SyntaxIssue[]): string {
+  return issues
+    .map(
+      (issue) =>
+        `  line ${issue.line}, column ${issue.column}: ${issue.message}`,
+    )
+    .join('\n');
+}
+
+/**
+ * Checks the files an edit is about to write (`after` is `null` for files it
+ * deletes) and lists the syntax errors they would have. In strict mode,
+ * throws instead if the edit introduces errors that `before` did not have.
+ */
+export async function validateChanges(
+  changes: { path: string; before: string | null; after: string | null }[],
+  mode: ValidationMode = getValidationMode(),
+): Promise<FileSyntaxIssue[] | undefined> {
+  if (mode === 'off') {
+    return undefined;
+  }
+  const reported: FileSyntaxIssue[] = [];
+  for (const change of changes) {
+    const after =
+      change.after === null
+        ? undefined
+        : await checkSyntax(change.path, change.after);
+    if (!after?.length) {
+      continue;
+    }
+    const before =
+      change.before === null
+        ? []
+        : ((await checkSyntax(change.path, change.before)) ?? []);
+    const introduced = findNewIssues(before, after);
+    if (mode === 'strict' && introduced.length > 0) {
+      throw new Error(
+        `Edit refused: it would introduce syntax errors in ${change.path}. No files were modified.\n${formatSyntaxIssues(introduced)}`,
+      );
+    }
+    reported.push(...after.map((issue) => ({ path: change.path, ...issue })));
+  }
+  return reported.length > 0 ? reported : undefined;
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs/promises';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ListResourcesResult,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { formatSize } from '../lib/directoryTree.js';
+import { decodeText } from '../lib/encoding.js';
+import {
+  detectFileType,
+  detectMimeType,
+  mimeTypeFromExtension,
+} from '../lib/fileType.js';
+import { walkDirectory } from '../lib/fileWalker.js';
+import { watchFile } from '../lib/fileWatcher.js';
+import { LARGE_FILE_SIZE } from '../lib/lineIndex.js';
+import { getPathPolicy, resolveAllowedPath } from '../lib/pathPolicy.js';
+
+// Files listed per workspace root; the rest can still be read by URI
+const MAX_LISTED_RESOURCES = 1000;
+
+/**
+ * Turns a `file://` resource URI into the path it names, checked against the
+ * workspace policy.
+ */
+const resolveResourcePath = async (uri: string): Promise<string> => {
+  let filePath: string;
+  try {
+    filePath = fileURLToPath(uri);
+  } catch (error) {
+    throw new Error(`Invalid file URI ${uri}: ${(error as Error).message}`);
+  }
+  return resolveAllowedPath(filePath);
+};
+
+/**
+ * Lists the files of a workspace root as resources, skipping hidden and
+ * ignored files like `view` does.
+ */
+const listRootResources = async (
+  root: string,
+): Promise<ListResourcesResult> => {
+  const resources: ListResourcesResult['resources'] = [];
+  for await (const entry of walkDirectory(root)) {
+    if (entry.type !== 'file') {
+      continue;
+    }
+    resources.push({
+      uri: pathToFileURL(entry.path).href,
+      name: entry.relativePath,
+      mimeType: mimeTypeFromExtension(entry.path),
+      size: entry.size,
+    });
+    if (resources.length >= MAX_LISTED_RESOURCES) {
+      break;
+    }
+  }
+  return { resources };
+};
+
+/**
+ * Reads a file resource: text files as text, anything else base64-encoded.
+ */
+const readFileResource = async (uri: URL): Promise<ReadResourceResult> => {
+  const filePath = await resolveResourcePath(uri.href);
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  if (stats.isDirectory()) {
+    throw new Error(`${filePath} is a directory, not a file`);
+  }
+  if (stats.size > LARGE_FILE_SIZE) {
+    throw new Error(
+      `${filePath} is too large to read as a resource (${formatSize(stats.size)}). Use the text_editor view command with view_range instead.`,
+    );
+  }
+
+  const buffer = await fs.readFile(filePath);
+  const mimeType = detectMimeType(filePath, buffer);
+  return {
+    contents: [
+      detectFileType(buffer).kind === 'text'
+        ? { uri: uri.href, mimeType, text: decodeText(buffer).content }
+        : { uri: uri.href, mimeType, blob: buffer.toString('base64') },
+    ],
+  };
+};
+
+/**
+ * Exposes the files of the workspace roots as `file://` resources, one
+ * template per root, and lets clients subscribe to them. Subscribers are
+ * notified when a file changes on disk or through the editor. Without
+ * workspace roots, every file can be read by URI but none are listed.
+ */
+export function registerFileResources(server: McpServer): void {
+  const { roots } = getPathPolicy();
+  if (roots.length === 0) {
+    server.resource(
+      'files',
+      new ResourceTemplate('file:///{+path}', { list: undefined }),
+      { description: 'Any file, by absolute path' },
+      readFileResource,
+    );
+  }
+  for (const root of roots) {
+    const rootUri = pathToFileURL(root).href.replace(/\/$/, '');
+    server.resource(
+      root,
+      new ResourceTemplate(`${rootUri}/{+path}`, {
+        list: () => listRootResources(root),
+      }),
+      { description: `Files in the workspace root ${root}` },
+      readFileResource,
+    );
+  }
+
+  // Subscriptions of this server's session, by URI
+  const subscriptions = new Map<string, () => void>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const filePath = await resolveResourcePath(uri);
+    if (!subscriptions.has(uri)) {
+      subscriptions.set(
+        uri,
+        watchFile(filePath, () => {
+          server.server.sendResourceUpdated({ uri }).catch((error) => {
+            console.error(`Error notifying about ${uri}:`, error);
+          });
+        }),
+      );
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    const { uri } = request.params;
+    subscriptions.get(uri)?.();
+    subscriptions.delete(uri);
+    return {};
+  });
+
+  server.server.onclose = () => {
+    for (const unwatch of subscriptions.values()) {
+      unwatch();
+    }
+    subscriptions.clear();
+  };
+}
@@ -0,0 +1,33 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { formatAuditLog, getAuditLog } from '../lib/auditLog.js';
+import { DEFAULT_SESSION_ID } from '../lib/sessionContext.js';
+
+export const HISTORY_RESOURCE_URI = 'text-editor://history';
+
+/**
+ * Exposes the changes made in the reading client's session, oldest first,
+ * as a JSON Lines resource.
+ */
+export function registerHistoryResource(server: McpServer): void {
+  server.resource(
+    'history',
+    HISTORY_RESOURCE_URI,
+    {
+      description:
+        'Every change made through the text editor in this session, one JSON object per line with its timestamp, command, description, path and diff',
+      mimeType: 'application/jsonl',
+    },
+    (uri, extra) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/jsonl',
+          text: formatAuditLog(
+            getAuditLog(extra.sessionId ?? DEFAULT_SESSION_ID),
+          ),
+        },
+      ],
+    }),
+  );
+}
@@ -0,0 +1,669 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { z } from 'zod';
+
+import { writeFileAtomic } from '../lib/atomicWrite.js';
+import { recordAuditEntry } from '../lib/auditLog.js';
+import { createUnifiedDiff } from '../lib/diff.js';
+import { applyFileEdit } from '../lib/edits.js';
+import {
+  decodeText,
+  encodeForFile,
+  readTextFile,
+  TextEncoding,
+} from '../lib/encoding.js';
+import {
+  assertNoConflict,
+  forgetSeenFile,
+  recordSeenFile,
+  updateSeenFile,
+} from '../lib/fileTracker.js';
+import { detectFileType } from '../lib/fileType.js';
+import { walkDirectory } from '../lib/fileWalker.js';
+import { notifyFileChanged } from '../lib/fileWatcher.js';
+import { getEditHistory } from '../lib/historyStore.js';
+import { matchLineEndings } from '../lib/lineEndings.js';
+import { invalidateLineIndex } from '../lib/lineIndex.js';
+import { realpathDeep, resolveAllowedPath } from '../lib/pathPolicy.js';
+import { formatSyntaxIssues, validateChanges } from '../lib/syntaxCheck.js';
+
+/**
+ * Revisions of Anthropic's built-in text editor tool that can be emulated
+ * instead of the extended `text_editor` tool.
+ */
+export const BUILTIN_EDITOR_VERSIONS = [
+  'text_editor_20241022',
+  'text_editor_20250124',
+  'text_editor_20250429',
+] as const;
+
+export type BuiltinEditorVersion = (typeof BUILTIN_EDITOR_VERSIONS)[number];
+
+// Limits of the reference implementation
+const MAX_RESPONSE_LEN = 16000;
+const SNIPPET_LINES = 4;
+const TRUNCATED_MESSAGE =
+  '<response clipped><NOTE>To save on context only part of this file has been shown to you. You should retry this tool after you have searched inside the file with `grep -n` in order to find the line numbers of what you are looking for.</NOTE>';
+
+const EDITOR_DESCRIPTION = `Custom editing tool for viewing, creating and editing files
+* State is persistent across command calls and discussions with the user
+* If \`path\` is a file, \`view\` displays the result of applying \`cat -n\`. If \`path\` is a directory, \`view\` lists non-hidden files and directories up to 2 levels deep
+* The \`create\` command cannot be used if the specified \`path\` already exists as a file
+* If a \`command\` generates a long output, it will be truncated and marked with \`<response clipped>\``;
+
+const UNDO_DESCRIPTION =
+  '\n* The `undo_edit` command will revert the last edit made to the file at `path`';
+
+const STR_REPLACE_NOTES = `
+
+Notes for using the \`str_replace\` command:
+* The \`old_str\` parameter should match EXACTLY one or more consecutive lines from the original file. Be mindful of whitespaces!
+* If the \`old_str\` parameter is not unique in the file, the replacement will not be performed. Make sure to include enough context in \`old_str\` to make it unique
+* The \`new_str\` parameter should contain the edited lines that should replace the \`old_str\``;
+
+const commandParameter = (commands: [string, ...string[]]) =>
+  z
+    .enum(commands)
+    .describe(
+      `The commands to run. Allowed options are: ${commands.map((command) => `\`${command}\``).join(', ')}.`,
+    );
+
+const sharedParameters = {
+  path: z
+    .string()
+    .describe(
+      'Absolute path to file or directory, e.g. `/repo/file.py` or `/repo`.',
+    ),
+  file_text: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `create` command, with the content of the file to be created.',
+    ),
+  insert_line: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Required parameter of `insert` command. The `new_str` will be inserted AFTER the line `insert_line` of `path`.',
+    ),
+  new_str: z
+    .string()
+    .optional()
+    .describe(
+      'Optional parameter of `str_replace` command containing the new string (if not given, no string will be added). Required parameter of `insert` command containing the string to insert.',
+    ),
+  old_str: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `str_replace` command containing the string in `path` to replace.',
+    ),
+  view_range: z
+    .array(z.number().int())
+    .optional()
+    .describe(
+      'Optional parameter of `view` command when `path` points to a file. If none is given, the full file is shown. If provided, the file will be shown in the indicated line number range, e.g. [11, 12] will show lines 11 and 12. Indexing at 1 to start. Setting `[start_line, -1]` shows all lines from `start_line` to the end of the file.',
+    ),
+};
+
+const EDIT_COMMANDS: [string, ...string[]] = [
+  'view',
+  'create',
+  'str_replace',
+  'insert',
+];
+
+const editorParameters20250124 = {
+  command: commandParameter([...EDIT_COMMANDS, 'undo_edit']),
+  ...sharedParameters,
+};
+
+const editorParameters20250429 = {
+  command: commandParameter(EDIT_COMMANDS),
+  ...sharedParameters,
+  max_characters: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional parameter of `view` command. Maximum number of characters to show when viewing a file; longer content is truncated.',
+    ),
+};
+
+type BuiltinEditorParameters = {
+  command: string;
+  path: string;
+  file_text?: string;
+  insert_line?: number;
+  new_str?: string;
+  old_str?: string;
+  view_range?: number[];
+  max_characters?: number;
+};
+
+type BuiltinEditorResponse = {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+};
+
+/**
+ * The response text of a command and, for commands that change the file,
+ * its content before and after (`null` when it does not exist).
+ */
+type CommandOutput = {
+  text: string;
+  change?: { before: string | null; after: string | null };
+};
+
+export type BuiltinEditorTool = {
+  name: string;
+  description: string;
+  parameters: typeof editorParameters20250124 | typeof editorParameters20250429;
+  execute: (
+    parameters: BuiltinEditorParameters,
+  ) => Promise<BuiltinEditorResponse>;
+};
+
+/** Formats a list of numbers as Python would, e.g. `[1, 5]`. */
+const formatList = (values: number[]): string => `[${values.join(', ')}]`;
+
+const expandTabs = (line: string, tabSize = 8): string => {
+  let column = 0;
+  let expanded = '';
+  for (const char of line) {
+    if (char === '\t') {
+      const spaces = tabSize - (column % tabSize);
+      expanded += ' '.repeat(spaces);
+      column += spaces;
+    } else {
+      expanded += char;
+      column = char === '\n' || char === '\r' ? 0 : column + 1;
+    }
+  }
+  return expanded;
+};
+
+const maybeTruncate = (
+  content: string,
+  truncateAfter: number = MAX_RESPONSE_LEN,
+): string =>
+  content.length <= truncateAfter
+    ? content
+    : content.slice(0, truncateAfter) + TRUNCATED_MESSAGE;
+
+/**
+ * Numbers lines like `cat -n`: the line number right-aligned in six columns
+ * followed by a tab.
+ */
+const makeOutput = (
+  content: string,
+  descriptor: string,
+  initLine = 1,
+  truncateAfter?: number,
+): string => {
+  const numbered = expandTabs(maybeTruncate(content, truncateAfter))
+    .split('\n')
+    .map((line, index) => `${String(index + initLine).padStart(6)}\t${line}`)
+    .join('\n');
+  return `Here's the result of running \`cat -n\` on ${descriptor}:\n${numbered}\n`;
+};
+
+/**
+ * Reads a file about to be edited, refusing to overwrite changes made since
+ * the agent last viewed it.
+ */
+const readForEdit = async (filePath: string): Promise<string> => {
+  const { content } = await readTextFile(filePath);
+  assertNoConflict(filePath, content);
+  return content;
+};
+
+/**
+ * Checks the syntax of an edited file in the configured validation mode and
+ * returns a note listing the errors left in it, if any. In strict mode,
+ * edits that introduce errors are refused instead.
+ */
+const validateEdit = async (
+  filePath: string,
+  requestedPath: string,
+  before: string | null,
+  after: string,
+): Promise<string> => {
+  const issues = await validateChanges([{ path: filePath, before, after }]);
+  return issues
+    ? `\nSyntax errors in ${requestedPath}:\n${formatSyntaxIssues(issues)}`
+    : '';
+};
+
+/**
+ * Atomically writes a file and refreshes its tracked state, like the
+ * `text_editor` tool does.
+ */
+const writeFile = async (
+  filePath: string,
+  content: string,
+  encoding?: TextEncoding,
+): Promise<void> => {
+  await writeFileAtomic(
+    filePath,
+    await encodeForFile(filePath, content, encoding),
+  );
+  invalidateLineIndex(filePath);
+  notifyFileChanged(filePath);
+  const stats = await fs.stat(filePath);
+  updateSeenFile(filePath, content, stats.mtimeMs);
+};
+
+/**
+ * Checks a path the way the built-in tool does, then against the workspace
+ * policy. Returns the canonical path.
+ */
+const validatePath = async (
+  command: string,
+  requestedPath: string,
+): Promise<string> => {
+  if (!path.isAbsolute(requestedPath)) {
+    throw new Error(
+      `The path ${requestedPath} is not an absolute path, it should start with \`/\`. Maybe you meant ${path.join('/', requestedPath)}?`,
+    );
+  }
+  const filePath = await resolveAllowedPath(requestedPath);
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats && command !== 'create') {
+    throw new Error(
+      `The path ${requestedPath} does not exist. Please provide a valid path.`,
+    );
+  }
+  if (stats && command === 'create') {
+    throw new Error(
+      `File already exists at: ${requestedPath}. Cannot overwrite files using command \`create\`.`,
+    );
+  }
+  if (stats?.isDirectory() && command !== 'view') {
+    throw new Error(
+      `The path ${requestedPath} is a directory and only the \`view\` command can be used on directories`,
+    );
+  }
+  return filePath;
+};
+
+/**
+ * Lists a directory like `find <dir> -maxdepth 2 -not -path '*\/.*'`.
+ */
+const viewDirectory = async (
+  dirPath: string,
+  requestedPath: string,
+): Promise<string> => {
+  const lines = [requestedPath];
+  for await (const entry of walkDirectory(dirPath, {
+    maxDepth: 2,
+    respectGitignore: false,
+  })) {
+    lines.push(path.join(requestedPath, entry.relativePath));
+  }
+  return `Here's the files and directories up to 2 levels deep in ${requestedPath}, excluding hidden items:\n${lines.join('\n')}\n`;
+};
+
+const viewFile = async (
+  filePath: string,
+  requestedPath: string,
+  viewRange: number[] | undefined,
+  maxCharacters: number | undefined,
+): Promise<string> => {
+  const buffer = await fs.readFile(filePath);
+  const fileType = detectFileType(buffer);
+  if (fileType.kind !== 'text') {
+    throw new Error(
+      `The file ${requestedPath} is not a text file (${fileType.description}, ${fileType.mimeType}, ${buffer.length} bytes) and cannot be viewed.`,
+    );
+  }
+
+  // Remember what the agent has seen so later edits detect external changes
+  const { content } = decodeText(buffer);
+  const stats = await fs.stat(filePath);
+  recordSeenFile(filePath, content, stats.mtimeMs);
+  if (!viewRange) {
+    return makeOutput(content, requestedPath, 1, maxCharacters);
+  }
+
+  if (viewRange.length !== 2) {
+    throw new Error(
+      'Invalid `view_range`. It should be a list of two integers.',
+    );
+  }
+  const lines = content.split('\n');
+  const lineCount = lines.length;
+  const [initLine, finalLine] = viewRange;
+  if (initLine < 1 || initLine > lineCount) {
+    throw new Error(
+      `Invalid \`view_range\`: ${formatList(viewRange)}. Its first element \`${initLine}\` should be within the range of lines of the file: ${formatList([1, lineCount])}`,
+    );
+  }
+  if (finalLine > lineCount) {
+    throw new Error(
+      `Invalid \`view_range\`: ${formatList(viewRange)}. Its second element \`${finalLine}\` should be smaller than the number of lines in the file: \`${lineCount}\``,
+    );
+  }
+  if (finalLine !== -1 && finalLine < initLine) {
+    throw new Error(
+      `Invalid \`view_range\`: ${formatList(viewRange)}. Its second element \`${finalLine}\` should be larger or equal than its first \`${initLine}\``,
+    );
+  }
+
+  const selected =
+    finalLine === -1
+      ? lines.slice(initLine - 1)
+      : lines.slice(initLine - 1, finalLine);
+  return makeOutput(
+    selected.join('\n'),
+    requestedPath,
+    initLine,
+    maxCharacters,
+  );
+};
+
+const strReplace = async (
+  filePath: string,
+  requestedPath: string,
+  oldStr: string,
+  newStr: string,
+): Promise<CommandOutput> => {
+  const content = await readForEdit(filePath);
+  // old_str written with `\n` still matches in a CRLF file
+  const target = matchLineEndings(content, oldStr);
+  const parts = content.split(target);
+  const occurrences = target === '' ? content.length + 1 : parts.length - 1;
+  if (occurrences === 0) {
+    throw new Error(
+      `No replacement was performed, old_str \`${oldStr}\` did not appear verbatim in ${requestedPath}.`,
+    );
+  }
+  if (occurrences > 1) {
+    const lines = content
+      .split('\n')
+      .flatMap((line, index) => (line.includes(target) ? [index + 1] : []));
+    throw new Error(
+      `No replacement was performed. Multiple occurrences of old_str \`${oldStr}\` in lines ${formatList(lines)}. Please ensure it is unique`,
+    );
+  }
+
+  const { content: newContent } = applyFileEdit(filePath, content, {
+    command: 'str_replace',
+    old_str: oldStr,
+    new_str: newStr,
+  });
+  const syntaxNote = await validateEdit(
+    filePath,
+    requestedPath,
+    content,
+    newContent,
+  );
+  await recordUndo(filePath, content);
+  await writeFile(filePath, newContent);
+
+  // Show the edited region with a few lines of context
+  const replacementLine = parts[0].split('\n').length - 1;
+  const startLine = Math.max(0, replacementLine - SNIPPET_LINES);
+  const endLine =
+    replacementLine + SNIPPET_LINES + newStr.split('\n').length - 1;
+  const snippet = newContent
+    .split('\n')
+    .slice(startLine, endLine + 1)
+    .join('\n');
+
+  return {
+    text:
+      `The file ${requestedPath} has been edited. ` +
+      makeOutput(snippet, `a snippet of ${requestedPath}`, startLine + 1) +
+      'Review the changes and make sure they are as expected. Edit the file again if necessary.' +
+      syntaxNote,
+    change: { before: content, after: newContent },
+  };
+};
+
+const insert = async (
+  filePath: string,
+  requestedPath: string,
+  insertLine: number,
+  newStr: string,
+): Promise<CommandOutput> => {
+  const content = await readForEdit(filePath);
+  const lineCount = content.split('\n').length;
+  if (insertLine < 0 || insertLine > lineCount) {
+    throw new Error(
+      `Invalid \`insert_line\` parameter: ${insertLine}. It should be within the range of lines of the file: ${formatList([0, lineCount])}`,
+    );
+  }
+
+  const { content: newContent } = applyFileEdit(filePath, content, {
+    command: 'insert',
+    insert_line: insertLine,
+    new_str: newStr,
+  });
+  const syntaxNote = await validateEdit(
+    filePath,
+    requestedPath,
+    content,
+    newContent,
+  );
+  await recordUndo(filePath, content);
+  await writeFile(filePath, newContent);
+
+  const snippet = newContent
+    .split('\n')
+    .slice(
+      Math.max(0, insertLine - SNIPPET_LINES),
+      insertLine + newStr.split('\n').length + SNIPPET_LINES,
+    )
+    .join('\n');
+
+  return {
+    text:
+      `The file ${requestedPath} has been edited. ` +
+      makeOutput(
+        snippet,
+        'a snippet of the edited file',
+        Math.max(1, insertLine - SNIPPET_LINES + 1),
+      ) +
+      'Review the changes and make sure they are as expected (correct indentation, no duplicate lines, etc). Edit the file again if necessary.' +
+      syntaxNote,
+    change: { before: content, after: newContent },
+  };
+};
+
+/**
+ * Saves the state a file is about to lose, `null` for a file being created,
+ * so `undo_edit` can bring it back.
+ */
+const recordUndo = async (
+  filePath: string,
+  content: string | null,
+): Promise<void> => {
+  const history = getEditHistory();
+  await history.undo.push(filePath, content);
+  await history.redo.clear(filePath);
+};
+
+const undoEdit = async (
+  filePath: string,
+  requestedPath: string,
+): Promise<CommandOutput> => {
+  const history = getEditHistory();
+  const entry = await history.undo.pop(filePath);
+  if (!entry) {
+    throw new Error(`No edit history found for ${requestedPath}.`);
+  }
+  const { content } = await readTextFile(filePath);
+  const change = { before: content, after: entry.content };
+  if (entry.content === null) {
+    await fs.rm(filePath, { force: true });
+    invalidateLineIndex(filePath);
+    notifyFileChanged(filePath);
+    forgetSeenFile(filePath);
+    return {
+      text: `Last edit to ${requestedPath} undone successfully. The file no longer exists.`,
+      change,
+    };
+  }
+  await writeFile(filePath, entry.content, entry.encoding);
+  return {
+    text: `Last edit to ${requestedPath} undone successfully. ${makeOutput(entry.content, requestedPath)}`,
+    change,
+  };
+};
+
+/**
+ * Renders a change for the audit log, clipped like the tool's responses.
+ */
+const formatDiff = (
+  filePath: string,
+  { before, after }: NonNullable<CommandOutput['change']>,
+): string =>
+  maybeTruncate(
+    createUnifiedDiff(before ?? '', after ?? '', {
+      oldPath: before === null ? '/dev/null' : filePath,
+      newPath: after === null ? '/dev/null' : filePath,
+    }),
+  );
+
+const runCommand = async (
+  commands: readonly string[],
+  toolName: string,
+  {
+    command,
+    path: requestedPath,
+    file_text,
+    insert_line,
+    new_str,
+    old_str,
+    view_range,
+    max_characters,
+  }: BuiltinEditorParameters,
+): Promise<CommandOutput> => {
+  if (!commands.includes(command)) {
+    throw new Error(
+      `Unrecognized command ${command}. The allowed commands for the ${toolName} tool are: ${commands.join(', ')}`,
+    );
+  }
+  const filePath = await validatePath(command, requestedPath);
+
+  switch (command) {
+    case 'view': {
+      const stats = await fs.stat(filePath);
+      if (stats.isDirectory()) {
+        if (view_range) {
+          throw new Error(
+            'The `view_range` parameter is not allowed when `path` points to a directory.',
+          );
+        }
+        return { text: await viewDirectory(filePath, requestedPath) };
+      }
+      return {
+        text: await viewFile(
+          filePath,
+          requestedPath,
+          view_range,
+          max_characters,
+        ),
+      };
+    }
+
+    case 'create': {
+      if (file_text === undefined) {
+        throw new Error(
+          'Parameter `file_text` is required for command: create',
+        );
+      }
+      const syntaxNote = await validateEdit(
+        filePath,
+        requestedPath,
+        null,
+        file_text,
+      );
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, file_text);
+      await recordUndo(filePath, null);
+      return {
+        text: `File created successfully at: ${requestedPath}${syntaxNote}`,
+        change: { before: null, after: file_text },
+      };
+    }
+
+    case 'str_replace': {
+      if (old_str === undefined) {
+        throw new Error(
+          'Parameter `old_str` is required for command: str_replace',
+        );
+      }
+      return strReplace(filePath, requestedPath, old_str, new_str ?? '');
+    }
+
+    case 'insert': {
+      if (insert_line === undefined) {
+        throw new Error(
+          'Parameter `insert_line` is required for command: insert',
+        );
+      }
+      if (new_str === undefined) {
+        throw new Error('Parameter `new_str` is required for command: insert');
+      }
+      return insert(filePath, requestedPath, insert_line, new_str);
+    }
+
+    case 'undo_edit':
+      return undoEdit(filePath, requestedPath);
+
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+};
+
+/**
+ * Returns the tool emulating a revision of Anthropic's built-in text editor:
+ * its name, description and parameters, and plain text responses with the
+ * same wording and `cat -n` formatting. Failures are reported as tool errors
+ * rather than JSON.
+ */
+export function getBuiltinEditorTool(
+  version: BuiltinEditorVersion,
+): BuiltinEditorTool {
+  const legacy = version !== 'text_editor_20250429';
+  const name = legacy ? 'str_replace_editor' : 'str_replace_based_edit_tool';
+  const commands = legacy ? [...EDIT_COMMANDS, 'undo_edit'] : EDIT_COMMANDS;
+
+  return {
+    name,
+    description:
+      EDITOR_DESCRIPTION + (legacy ? UNDO_DESCRIPTION : '') + STR_REPLACE_NOTES,
+    parameters: legacy ? editorParameters20250124 : editorParameters20250429,
+    execute: async (parameters) => {
+      try {
+        const { text, change } = await runCommand(commands, name, parameters);
+        // Changes are recorded in the audit log, like text_editor's
+        if (change) {
+          const filePath = await realpathDeep(parameters.path);
+          await recordAuditEntry({
+            command: parameters.command,
+            path: filePath,
+            files: [filePath],
+            diff: formatDiff(filePath, change),
+          });
+        }
+        return { content: [{ type: 'text', text }] };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: error instanceof Error ? error.message : 'Unknown error',
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
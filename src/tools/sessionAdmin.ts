@@ -0,0 +1,139 @@
+import { z } from 'zod';
+
+import { getSessionId } from '../lib/sessionContext.js';
+import { clearSession, hasSession, listSessions } from '../lib/sessions.js';
+import {
+  SessionSettings,
+  updateSessionSettings,
+} from '../lib/sessionSettings.js';
+import { VALIDATION_MODES } from '../lib/syntaxCheck.js';
+
+export const sessionAdminParameters = {
+  command: z
+    .enum(['list_sessions', 'clear_session', 'configure_session'])
+    .describe(
+      'The commands to run. Allowed options are: `list_sessions`, `clear_session`, `configure_session`.',
+    ),
+  session_id: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `clear_session` command, optional for `configure_session` (defaults to this session). The id of the session to clear or configure, as shown by `list_sessions`.',
+    ),
+  output_limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional parameter of `configure_session` command. Output limit the session uses for calls that do not pass `output_limit`, instead of the server default.',
+    ),
+  validate: z
+    .enum(VALIDATION_MODES)
+    .optional()
+    .describe(
+      'Optional parameter of `configure_session` command. Validation mode the session uses for calls that do not pass `validate`, instead of the server default.',
+    ),
+};
+
+// eslint-disable-next-line unused-imports/no-unused-vars
+const parameterSchema = z.object(sessionAdminParameters);
+
+type Parameters = z.infer<typeof parameterSchema>;
+
+type ContentResponse = {
+  content: { type: 'text'; text: string }[];
+};
+
+const buildContentResponse = (result: {
+  success: boolean;
+  message: string;
+  content?: string;
+}): ContentResponse => ({
+  content: [{ type: 'text', text: JSON.stringify(result) }],
+});
+
+const formatSettings = (settings: SessionSettings): string[] => [
+  ...(settings.outputLimit !== undefined
+    ? [`output limit ${settings.outputLimit}`]
+    : []),
+  ...(settings.validate !== undefined ? [`validate ${settings.validate}`] : []),
+];
+
+const formatSession = (
+  session: ReturnType<typeof listSessions>[number],
+  currentId: string,
+): string =>
+  [
+    session.id + (session.id === currentId ? ' (this session)' : ''),
+    `created ${new Date(session.createdAt).toISOString()}`,
+    `last active ${new Date(session.lastActiveAt).toISOString()}`,
+    `${session.calls} call(s)`,
+    `${session.viewedFiles} viewed file(s)`,
+    ...formatSettings(session.settings),
+  ].join(', ');
+
+export const sessionAdminExecute = async ({
+  command,
+  session_id,
+  output_limit,
+  validate,
+}: Parameters): Promise<ContentResponse> => {
+  try {
+    switch (command) {
+      case 'list_sessions': {
+        const sessions = listSessions();
+        return buildContentResponse({
+          success: true,
+          message: `${sessions.length} session(s):`,
+          content: sessions
+            .map((session) => formatSession(session, getSessionId()))
+            .join('\n'),
+        });
+      }
+
+      case 'clear_session': {
+        if (!session_id) {
+          throw new Error(
+            'session_id parameter is required for clear_session command',
+          );
+        }
+        if (!(await clearSession(session_id))) {
+          throw new Error(`Session not found: ${session_id}`);
+        }
+        return buildContentResponse({
+          success: true,
+          message: `Cleared the edit history and viewed files of session ${session_id}`,
+        });
+      }
+
+      case 'configure_session': {
+        const sessionId = session_id ?? getSessionId();
+        if (!hasSession(sessionId)) {
+          throw new Error(`Session not found: ${sessionId}`);
+        }
+        const settings = formatSettings(
+          updateSessionSettings(sessionId, {
+            outputLimit: output_limit,
+            validate,
+          }),
+        );
+        return buildContentResponse({
+          success: true,
+          message: settings.length
+            ? `Session ${sessionId} uses ${settings.join(', ')}`
+            : `Session ${sessionId} uses the server settings`,
+        });
+      }
+
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    return buildContentResponse({
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      content: 'undefined',
+    });
+  }
+};
@@ -1,20 +1,124 @@
-import { execSync } from 'child_process';
+import { randomUUID } from 'crypto';
 import * as fsSync from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
 import { z } from 'zod';
 
-const OUTPUT_LIMIT = 10 * 1024; // 10KB limit
+import { writeFileAtomic } from '../lib/atomicWrite.js';
+import {
+  formatAuditLog,
+  getAuditLog,
+  recordAuditEntry,
+} from '../lib/auditLog.js';
+import { changedLineRange, createUnifiedDiff } from '../lib/diff.js';
+import { formatSize, renderDirectoryTree } from '../lib/directoryTree.js';
+import {
+  applyFileEdit,
+  applyStrReplaceEdits,
+  insertAtLine,
+} from '../lib/edits.js';
+import {
+  decodeText,
+  encodeForFile,
+  readTextFile,
+  readTextFileIfExists,
+  TEXT_ENCODINGS,
+  TextEncoding,
+} from '../lib/encoding.js';
+import {
+  copyPath,
+  listDirectoriesRecursive,
+  listFilesRecursive,
+  movePath,
+  readRestorableFile,
+} from '../lib/fileOperations.js';
+import {
+  assertHashUnchanged,
+  assertNoConflict,
+  forgetSeenFile,
+  recordSeenFile,
+  recordSeenHash,
+  updateSeenFile,
+  updateSeenHash,
+} from '../lib/fileTracker.js';
+import { commitFileChanges } from '../lib/fileTransaction.js';
+import {
+  detectFileType,
+  FileType,
+  formatHexDump,
+  HEX_PREVIEW_BYTES,
+} from '../lib/fileType.js';
+import { notifyFileChanged } from '../lib/fileWatcher.js';
+import { findFiles } from '../lib/findFiles.js';
+import {
+  EditHistory,
+  getEditHistory,
+  HistoryGroup,
+  HistoryStore,
+} from '../lib/historyStore.js';
+import {
+  convertLineEndings,
+  detectLineEndings,
+  LINE_ENDING_STYLES,
+  matchLineEndings,
+} from '../lib/lineEndings.js';
+import {
+  getLineIndex,
+  insertLines,
+  invalidateLineIndex,
+  LARGE_FILE_SIZE,
+  readLines,
+} from '../lib/lineIndex.js';
+import { applyHunks, HunkResult, parsePatch } from '../lib/patch.js';
+import {
+  getPathPolicy,
+  isWithin,
+  realpathDeep,
+  resolveAllowedPath,
+} from '../lib/pathPolicy.js';
+import { extractPdfText } from '../lib/pdfText.js';
+import { searchFiles } from '../lib/search.js';
+import { getSessionSettings } from '../lib/sessionSettings.js';
+import {
+  detectSyntaxLanguage,
+  getValidationMode,
+  validateChanges,
+  VALIDATION_MODES,
+  ValidationMode,
+} from '../lib/syntaxCheck.js';
 
-// Store file states for undo functionality
-const fileStateHistory: Record<string, string[]> = {};
+const DEFAULT_OUTPUT_LIMIT = 10 * 1024; // 10KB limit
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // Largest image returned as image content
+const MAX_PDF_SIZE = 64 * 1024 * 1024; // Largest PDF read to extract its text
+const FILE_HEAD_SIZE = 8 * 1024; // Bytes read to tell the type of a large file
+const SNIPPET_LINES = 4; // Context lines around an edit in the response snippet
 
 export const toolParameters = {
   command: z
-    .enum(['view', 'create', 'str_replace', 'insert', 'undo_edit'])
+    .enum([
+      'view',
+      'create',
+      'str_replace',
+      'multi_edit',
+      'insert',
+      'transaction',
+      'apply_patch',
+      'search',
+      'find_files',
+      'normalize_line_endings',
+      'delete',
+      'move',
+      'copy',
+      'mkdir',
+      'undo_edit',
+      'redo_edit',
+      'checkpoint',
+      'restore_checkpoint',
+      'history',
+    ])
     .describe(
-      'The commands to run. Allowed options are: `view`, `create`, `str_replace`, `insert`, `undo_edit`.',
+      'The commands to run. Allowed options are: `view`, `create`, `str_replace`, `multi_edit`, `insert`, `transaction`, `apply_patch`, `search`, `find_files`, `normalize_line_endings`, `delete`, `move`, `copy`, `mkdir`, `undo_edit`, `redo_edit`, `checkpoint`, `restore_checkpoint`, `history`. `history` lists the changes made in this session to `path` or below it, newest first, as JSON Lines with the timestamp, command, description, path and diff of each.',
     ),
   path: z
     .string()
@@ -27,6 +131,12 @@ export const toolParameters = {
     .describe(
       'Required parameter of `create` command, with the content of the file to be created.',
     ),
+  encoding: z
+    .enum(TEXT_ENCODINGS)
+    .optional()
+    .describe(
+      'Optional parameter of `create` command. The encoding to write the file in: `utf8` (default for new files), `utf8-bom`, `utf16le`, `utf16be` or `latin1`. Existing files keep their current encoding unless this is given; `view` reports the encoding of a file.',
+    ),
   insert_line: z
     .number()
     .optional()
@@ -45,11 +155,187 @@ export const toolParameters = {
     .describe(
       'Required parameter of `str_replace` command containing the string in `path` to replace.',
     ),
+  regex: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional parameter of `str_replace` and `search` commands. For `str_replace`, treat `old_str` as a JavaScript regular expression (`^` and `$` match at line boundaries); `new_str` may refer to capture groups as `$1` or `$<name>`, and to the whole match as `$&`. For `search`, treat `pattern` as a regular expression matched against each line.',
+    ),
+  replace_all: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional parameter of `str_replace` command. Replace every match of `old_str` instead of requiring exactly one.',
+    ),
+  occurrence: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional parameter of `str_replace` command. Replace only the n-th match of `old_str` (1-based) when it matches several times.',
+    ),
+  edits: z
+    .array(
+      z.object({
+        old_str: z.string().describe('The exact string to replace.'),
+        new_str: z
+          .string()
+          .optional()
+          .describe('The replacement string (defaults to empty).'),
+      }),
+    )
+    .optional()
+    .describe(
+      'Required parameter of `multi_edit` command. Ordered list of `{old_str, new_str}` replacements, each applied to the result of the previous one. Every `old_str` must match exactly once; if any edit fails nothing is written.',
+    ),
+  operations: z
+    .array(
+      z.object({
+        command: z
+          .enum(['create', 'str_replace', 'insert'])
+          .describe('The command to apply to this file.'),
+        path: z
+          .string()
+          .describe(
+            'Path of the file to change, absolute or relative to `path`.',
+          ),
+        file_text: z.string().optional(),
+        old_str: z.string().optional(),
+        new_str: z.string().optional(),
+        insert_line: z.number().optional(),
+        regex: z.boolean().optional(),
+        replace_all: z.boolean().optional(),
+        occurrence: z.number().int().min(1).optional(),
+      }),
+    )
+    .optional()
+    .describe(
+      'Required parameter of `transaction` command. Ordered list of `create`, `str_replace` and `insert` operations, possibly across several files, taking the same parameters as the standalone commands. All operations are validated before any file is written and the changes are committed all-or-nothing. `path` is the base directory for relative operation paths. A single `undo_edit` on any of the files reverts the whole transaction.',
+    ),
+  patch: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `apply_patch` command. A unified diff touching one or more files, as produced by `diff -u` or `git diff`. `--- /dev/null` creates a file and `+++ /dev/null` deletes it. Paths may be absolute or relative to `path`; git `a/` and `b/` prefixes are stripped.',
+    ),
+  fuzz: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Optional parameter of `apply_patch` command. How many context lines may be ignored at each end of a hunk that does not match exactly (default 2).',
+    ),
+  max_offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Optional parameter of `apply_patch` command. How many lines away from the position in its header a hunk may be found (default: anywhere in the file).',
+    ),
+  pattern: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `search` and `find_files` commands. For `search`, the text to look for in every file under `path` (or in `path` itself if it is a file), matched line by line; literal unless `regex` is true. For `find_files`, a glob such as `src/**/*.test.ts` matched against paths relative to `path`; globs without a `/` match file names at any depth.',
+    ),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Optional parameter of `search` command. Only search files matching one of these globs, e.g. `["*.ts", "src/**/*.js"]`. Globs without a `/` match the file name at any depth, others the path relative to `path`.',
+    ),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Optional parameter of `search` and `find_files` commands. Skip files matching any of these globs, with the same syntax as `include`.',
+    ),
+  context_lines: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Optional parameter of `search` command. Lines of context to show before and after each match (default 0).',
+    ),
+  sort_by: z
+    .enum(['path', 'mtime'])
+    .optional()
+    .describe(
+      'Optional parameter of `find_files` command. `path` (default) sorts alphabetically, `mtime` lists the most recently modified files first.',
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Optional parameter of `find_files` command. The `next_cursor` of the previous response, to get the next page of results.',
+    ),
+  line_ending: z
+    .enum(['lf', 'crlf'])
+    .optional()
+    .describe(
+      'Required parameter of `normalize_line_endings` command. Convert every line break in the file to `lf` (`\\n`) or `crlf` (`\\r\\n`). Edits already keep the line endings a file uses consistently, and `view` reports them as `line_ending`.',
+    ),
+  destination: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `move` and `copy` commands. Absolute path to move or copy `path` to. This is the full new path, not a directory to put it in; missing parent directories are created.',
+    ),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional parameter of `move` and `copy` commands. Replace a file that already exists at `destination` (default false). Directories are never replaced.',
+    ),
+  expected_hash: z
+    .string()
+    .optional()
+    .describe(
+      'Optional parameter of `create`, `str_replace`, `multi_edit` and `insert` commands. The `hash` reported by `view` (or by the previous edit) for the content this edit is based on. Without it, edits to a file that changed on disk since it was last viewed are refused; with it, the edit goes through only if the file still has this hash.',
+    ),
+  validate: z
+    .enum(VALIDATION_MODES)
+    .optional()
+    .describe(
+      'Optional parameter of `create`, `str_replace`, `multi_edit`, `insert`, `transaction` and `apply_patch` commands. Parse JSON, YAML, TOML, JavaScript and TypeScript files after the edit: `report` returns the syntax errors left in them as `syntax_errors`, `strict` also refuses the edit if it introduces new ones, `off` skips the check. Defaults to the server setting (`off` unless configured otherwise).',
+    ),
   view_range: z
     .array(z.number())
     .optional()
     .describe(
-      'Optional parameter of `view` command when `path` points to a file. If none is given, the full file is shown. If provided, the file will be shown in the indicated line number range, e.g. [11, 12] will show lines 11 and 12. Indexing at 1 to start. Setting `[start_line, -1]` shows all lines from `start_line` to the end of the file.',
+      'Optional parameter of `view` command when `path` points to a file. If none is given, the full file is shown. If provided, the file will be shown in the indicated line number range, e.g. [11, 12] will show lines 11 and 12. Indexing at 1 to start. Setting `[start_line, -1]` shows all lines from `start_line` to the end of the file. When the lines do not fit in the output limit, the response stops at a whole line and includes a `next_range` to pass here to continue.',
+    ),
+  output_limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional. Maximum number of characters of file content, listings, search results and diffs to return, instead of the server default (10240 unless configured otherwise).',
+    ),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional parameter of `view` command when `path` points to a directory. How many levels of subdirectories to list (default 2).',
+    ),
+  label: z
+    .string()
+    .optional()
+    .describe(
+      'Required parameter of `checkpoint` and `restore_checkpoint` commands naming the checkpoint. Saving a checkpoint under an existing label replaces it.',
+    ),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Optional parameter of `checkpoint` command listing the absolute paths of the files to snapshot. Defaults to `path`. `restore_checkpoint` always restores every file in the checkpoint.',
     ),
   description: z
     .string()
@@ -63,34 +349,103 @@ const returnSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   content: z.string().optional(),
+  hash: z.string().optional(),
+  diff: z.string().optional(),
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
+  line_ending: z.enum(LINE_ENDING_STYLES).optional(),
+  next_cursor: z.string().optional(),
+  total_lines: z.number().optional(),
+  last_line: z.number().optional(),
+  next_range: z.array(z.number()).optional(),
+  mime_type: z.string().optional(),
+  size: z.number().optional(),
+  syntax_errors: z
+    .array(
+      z.object({
+        path: z.string(),
+        line: z.number(),
+        column: z.number(),
+        message: z.string(),
+      }),
+    )
+    .optional(),
 });
 
 type Parameters = z.infer<typeof parameterSchema>;
 type ReturnType = z.infer<typeof returnSchema>;
 
+type ImageContent = {
+  type: 'image';
+  data: string;
+  mimeType: string;
+};
+
+/**
+ * What a command produces: the JSON result, plus an image to show alongside
+ * it when an image file is viewed and the files it changed, for the audit
+ * log.
+ */
+type CommandResult = ReturnType & {
+  image?: ImageContent;
+  changedFiles?: string[];
+};
+
 type ContentResponse = {
-  content: {
-    type: 'text';
-    text: string;
-  }[];
+  content: (
+    | {
+        type: 'text';
+        text: string;
+      }
+    | ImageContent
+  )[];
 };
 
-const buildContentResponse = (result: ReturnType): ContentResponse => {
+const buildContentResponse = ({
+  image,
+  changedFiles: _changedFiles,
+  ...result
+}: CommandResult): ContentResponse => {
   return {
     content: [
       {
         type: 'text',
         text: JSON.stringify(result),
       },
+      ...(image ? [image] : []),
     ],
   };
 };
 
+let defaultOutputLimit = DEFAULT_OUTPUT_LIMIT;
+
+/**
+ * Sets the output limit used by calls that do not pass `output_limit`, in
+ * sessions that have not chosen their own.
+ */
+export function configureOutputLimit(
+  outputLimit: number = DEFAULT_OUTPUT_LIMIT,
+): void {
+  defaultOutputLimit = outputLimit;
+}
+
 export const textEditorExecute = async (
   parameters: Parameters,
 ): Promise<ContentResponse> => {
   try {
     const result = await textEditorInternal(parameters);
+    // Commands that changed files are recorded in the audit log
+    if (result.success && result.changedFiles?.length) {
+      await recordAuditEntry({
+        command: parameters.command,
+        description: parameters.description,
+        path: await realpathDeep(parameters.path),
+        destination:
+          parameters.destination &&
+          (await realpathDeep(parameters.destination)),
+        files: result.changedFiles,
+        diff: result.diff,
+      });
+    }
     return buildContentResponse(result);
   } catch (error) {
     return buildContentResponse({
@@ -101,18 +456,748 @@ export const textEditorExecute = async (
   }
 };
 
+type ContentChange = {
+  path: string;
+  before: string | null;
+  after: string | null;
+  /**
+   * Line number of the first line of `before` and `after`, when they are an
+   * excerpt of the file around the change.
+   */
+  firstLine?: number;
+};
+
+const formatNumberedLines = (lines: string[], firstLine: number): string =>
+  lines
+    .map((line, i) => `${firstLine + i}: ${line.replace(/\r$/, '')}`)
+    .join('\n');
+
+/**
+ * Numbers as many whole lines, starting at line `firstLine`, as fit within
+ * `outputLimit` characters. A first line that does not fit on its own is cut.
+ * Returns the text, the number of the last line it shows and whether that
+ * line was cut.
+ */
+const formatNumberedPage = (
+  lines: string[],
+  firstLine: number,
+  outputLimit: number,
+): { text: string; lastLine: number; clipped: boolean } => {
+  let text = '';
+  for (const [index, line] of lines.entries()) {
+    const numbered = formatNumberedLines([line], firstLine + index);
+    if (index === 0 && numbered.length > outputLimit) {
+      return {
+        text: `${numbered.slice(0, outputLimit)}\n<response clipped>`,
+        lastLine: firstLine,
+        clipped: true,
+      };
+    }
+    if (index > 0 && text.length + 1 + numbered.length > outputLimit) {
+      return { text, lastLine: firstLine + index - 1, clipped: false };
+    }
+    text = index === 0 ? numbered : `${text}\n${numbered}`;
+  }
+  return { text, lastLine: firstLine + lines.length - 1, clipped: false };
+};
+
+/**
+ * Cuts text after the last whole line that fits within `outputLimit`.
+ */
+const clipToOutputLimit = (
+  text: string,
+  marker: string,
+  outputLimit: number,
+): string => {
+  if (text.length <= outputLimit) {
+    return text;
+  }
+  const cut = text.lastIndexOf('\n', outputLimit);
+  return `${text.slice(0, cut > 0 ? cut : outputLimit)}\n${marker}`;
+};
+
+/**
+ * Renders the unified diff of one or more file changes.
+ */
+const formatDiff = (changes: ContentChange[], outputLimit: number): string =>
+  clipToOutputLimit(
+    changes
+      .map(({ path: changedPath, before, after, firstLine }) =>
+        createUnifiedDiff(before ?? '', after ?? '', {
+          oldPath: before === null ? '/dev/null' : changedPath,
+          newPath: after === null ? '/dev/null' : changedPath,
+          firstLine,
+        }),
+      )
+      .join(''),
+    '<diff clipped>',
+    outputLimit,
+  );
+
+/**
+ * Shows the edited region of the new content with line numbers, the same
+ * way `view` does, plus a few lines of context on each side.
+ */
+const formatSnippet = (
+  { before, after, firstLine = 1 }: ContentChange,
+  outputLimit: number,
+): string | undefined => {
+  const range =
+    after === null ? undefined : changedLineRange(before ?? '', after);
+  if (after === null || !range) {
+    return undefined;
+  }
+  const lines = after.split('\n');
+  const start = Math.max(1, range.start - SNIPPET_LINES);
+  const end = Math.min(
+    lines.length,
+    Math.max(range.end, range.start - 1) + SNIPPET_LINES,
+  );
+  return clipToOutputLimit(
+    formatNumberedLines(lines.slice(start - 1, end), start + firstLine - 1),
+    '<response clipped>',
+    outputLimit,
+  );
+};
+
+/**
+ * Builds the response fields describing changed files: a snippet of the
+ * edited region for a single file, the list of paths for several, and the
+ * unified diff of everything.
+ */
+const describeChanges = (
+  changes: ContentChange[],
+  outputLimit: number,
+): Pick<CommandResult, 'content' | 'diff' | 'changedFiles'> => ({
+  content:
+    changes.length === 1
+      ? formatSnippet(changes[0], outputLimit)
+      : changes.map((change) => change.path).join('\n'),
+  diff: formatDiff(changes, outputLimit),
+  changedFiles: changes.map((change) => change.path),
+});
+
+/**
+ * Summarizes how the hunks of a patch applied to one file. Rejected hunks are
+ * repeated in full so they can be corrected and sent again.
+ */
+const formatHunkReport = (filePath: string, results: HunkResult[]): string => {
+  const applied = results.filter((result) => result.applied).length;
+  const report = [
+    `${filePath}: ${applied} of ${results.length} hunk(s) applied`,
+  ];
+  for (const [index, { hunk, applied, offset, fuzz }] of results.entries()) {
+    if (!applied) {
+      report.push(
+        `Hunk #${index + 1} rejected:`,
+        hunk.header,
+        ...hunk.lines.map(
+          ({ type, line }) => `${type}${line.replace(/\n$/, '')}`,
+        ),
+      );
+    } else if (offset !== 0 || fuzz > 0) {
+      report.push(
+        `Hunk #${index + 1} applied at offset ${offset} with fuzz ${fuzz}`,
+      );
+    }
+  }
+  return report.join('\n');
+};
+
+/**
+ * Tells that `subject` (e.g. `old_str of edit #2`) only matched after
+ * ignoring whitespace, to append to a response message.
+ */
+const formatFuzzyNotice = (subject: string, count = 1): string =>
+  `. ${subject} did not match exactly; ${count === 1 ? 'it was' : 'they were'} matched ignoring differences in whitespace, indentation and line endings, and new_str was re-indented to match. Review the diff.`;
+
+/**
+ * Saves the state a file is about to lose so `undo_edit` can bring it back.
+ * A fresh edit invalidates whatever was previously undone.
+ */
+const recordUndoState = async (
+  history: EditHistory,
+  filePath: string,
+  content: string | null,
+  group?: HistoryGroup,
+  encoding?: TextEncoding,
+  directory?: boolean,
+): Promise<void> => {
+  await history.undo.push(filePath, content, group, encoding, directory);
+  await history.redo.clear(filePath);
+};
+
+/**
+ * Atomically writes a file and refreshes its tracked state, so the agent's
+ * own edits are never mistaken for external modifications. The file keeps
+ * its current encoding unless another one is given. Returns the hash of the
+ * new content.
+ */
+const writeTrackedFile = async (
+  filePath: string,
+  content: string,
+  encoding?: TextEncoding,
+): Promise<string> => {
+  await writeFileAtomic(
+    filePath,
+    await encodeForFile(filePath, content, encoding),
+  );
+  invalidateLineIndex(filePath);
+  notifyFileChanged(filePath);
+  const stats = await fs.stat(filePath);
+  return updateSeenFile(filePath, content, stats.mtimeMs);
+};
+
+/**
+ * Commits a set of changes all-or-nothing, each file keeping its current
+ * encoding unless one is given, refreshes their tracked state and notifies
+ * resource subscribers.
+ */
+const commitTrackedChanges = async (
+  changes: { path: string; content: string | null; encoding?: TextEncoding }[],
+): Promise<void> => {
+  await commitFileChanges(
+    await Promise.all(
+      changes.map(async (change) => ({
+        path: change.path,
+        content:
+          change.content === null
+            ? null
+            : await encodeForFile(change.path, change.content, change.encoding),
+      })),
+    ),
+  );
+  for (const change of changes) {
+    invalidateLineIndex(change.path);
+    notifyFileChanged(change.path);
+    if (change.content === null) {
+      forgetSeenFile(change.path);
+    } else {
+      const stats = await fs.stat(change.path);
+      updateSeenFile(change.path, change.content, stats.mtimeMs);
+    }
+  }
+};
+
+/**
+ * Writes the newest state of `filePath` from one history stack back to disk
+ * and pushes the state it replaces onto the other stack. Entries recorded by
+ * a transaction move together with the rest of their group, all-or-nothing.
+ * Returns the changes made and their group, or `undefined` if the stack is
+ * empty.
+ */
+const moveHistoryState = async (
+  from: HistoryStore,
+  to: HistoryStore,
+  filePath: string,
+): Promise<{ changes: ContentChange[]; group?: HistoryGroup } | undefined> => {
+  const entry = await from.peek(filePath);
+  if (!entry) {
+    return undefined;
+  }
+
+  const group = entry.group;
+  const groupPaths = group ? group.paths : [filePath];
+  const changes = await Promise.all(
+    groupPaths.map(async (groupPath) => {
+      const groupEntry = await from.peek(groupPath);
+      if (!groupEntry || groupEntry.group?.id !== group?.id) {
+        throw new Error(
+          `Cannot revert the transaction that changed ${filePath}: ${groupPath} has been edited since`,
+        );
+      }
+      const stats = await fs.stat(groupPath).catch(() => null);
+      const currentDirectory = stats?.isDirectory() ?? false;
+      if (currentDirectory && groupEntry.content !== null) {
+        throw new Error(
+          `Cannot revert the last change to ${filePath}: ${groupPath} is now a directory`,
+        );
+      }
+      const decoded = currentDirectory
+        ? null
+        : await readTextFileIfExists(groupPath);
+      const current = decoded?.content ?? null;
+      if (current !== null) {
+        if (groupEntry.directory) {
+          throw new Error(
+            `Cannot revert the last change to ${filePath}: ${groupPath} is now a file`,
+          );
+        }
+        assertNoConflict(groupPath, current);
+      }
+      return {
+        path: groupPath,
+        content: groupEntry.content,
+        encoding: groupEntry.encoding,
+        directory: groupEntry.directory ?? false,
+        current,
+        currentEncoding: decoded?.encoding,
+        currentDirectory,
+      };
+    }),
+  );
+
+  // Directories are only removed once everything they held goes with them
+  const removedPaths = new Set(
+    changes
+      .filter((change) => change.content === null && !change.directory)
+      .map((change) => change.path),
+  );
+  const removedDirectories = changes
+    .filter((change) => change.currentDirectory && !change.directory)
+    .map((change) => change.path)
+    .sort()
+    .reverse();
+  for (const directory of removedDirectories) {
+    const entries = await fs.readdir(directory, { recursive: true });
+    const kept = entries
+      .map((entry) => path.join(directory, entry))
+      .find((entryPath) => !removedPaths.has(entryPath));
+    if (kept) {
+      throw new Error(
+        `Cannot revert the last change to ${filePath}: ${kept} has been added since`,
+      );
+    }
+  }
+
+  for (const change of changes.filter((change) => change.directory)) {
+    await fs.mkdir(change.path, { recursive: true });
+  }
+  await commitTrackedChanges(
+    changes.filter((change) => !change.directory && !change.currentDirectory),
+  );
+  for (const directory of removedDirectories) {
+    await fs.rmdir(directory);
+    notifyFileChanged(directory);
+  }
+
+  for (const change of changes) {
+    await from.pop(change.path);
+    await to.push(
+      change.path,
+      change.current,
+      group,
+      change.currentEncoding,
+      change.currentDirectory,
+    );
+  }
+
+  return {
+    changes: changes.map((change) => ({
+      path: change.path,
+      before: change.current,
+      after: change.content,
+    })),
+    group,
+  };
+};
+
+/**
+ * Names a group of changes in the `undo_edit` and `redo_edit` messages.
+ */
+const describeGroup = (
+  group: HistoryGroup | undefined,
+  changes: ContentChange[],
+): string =>
+  group?.operation
+    ? `the ${group.operation}`
+    : `transaction affecting ${changes.length} files`;
+
+type FileState = {
+  path: string;
+  content: string | null;
+  encoding?: TextEncoding;
+  /** Set for a directory, which `undo_edit` recreates empty. */
+  directory?: boolean;
+};
+
+/**
+ * Refuses to delete or move a workspace root or the file system root, which
+ * would take the whole workspace with it.
+ */
+const assertNotRoot = (filePath: string, command: string): void => {
+  if (
+    path.dirname(filePath) === filePath ||
+    getPathPolicy().roots.includes(filePath)
+  ) {
+    throw new Error(`Cannot ${command} ${filePath}: it is a workspace root`);
+  }
+};
+
+/**
+ * Reads the files a `delete`, `move` or `copy` is about to remove or
+ * replace, checking each one against the deny list, so the operation can be
+ * recorded for `undo_edit`. Files that do not exist are recorded as such.
+ */
+const readFileStates = async (filePaths: string[]): Promise<FileState[]> =>
+  Promise.all(
+    filePaths.map(async (statePath) => {
+      await resolveAllowedPath(statePath);
+      if (!fsSync.existsSync(statePath)) {
+        return { path: statePath, content: null };
+      }
+      const { content, encoding } = await readRestorableFile(statePath);
+      return { path: statePath, content, encoding };
+    }),
+  );
+
+/**
+ * Records the previous state of every file touched by a file operation as
+ * one history group, so a single `undo_edit` on any of them reverts it.
+ * `operation` names it in the `undo_edit` and `redo_edit` messages.
+ */
+const recordFileOperation = async (
+  history: EditHistory,
+  states: FileState[],
+  operation: string,
+): Promise<void> => {
+  const group =
+    states.length > 1
+      ? {
+          id: randomUUID(),
+          paths: states.map((state) => state.path),
+          operation,
+        }
+      : undefined;
+  for (const state of states) {
+    await recordUndoState(
+      history,
+      state.path,
+      state.content,
+      group,
+      state.encoding,
+      state.directory,
+    );
+  }
+};
+
+/**
+ * Drops the tracked state of files that were removed or replaced by a file
+ * operation; they have to be viewed again before editing.
+ */
+const forgetFiles = (filePaths: string[]): void => {
+  for (const forgottenPath of filePaths) {
+    invalidateLineIndex(forgottenPath);
+    notifyFileChanged(forgottenPath);
+    forgetSeenFile(forgottenPath);
+  }
+};
+
+/**
+ * Shows a file that is not text: images as image content, the text of PDFs,
+ * and a hex preview of anything else.
+ */
+const viewBinaryFile = (
+  filePath: string,
+  buffer: Buffer,
+  size: number,
+  fileType: Exclude<FileType, { kind: 'text' }>,
+  outputLimit: number,
+): CommandResult => {
+  const { mimeType, description } = fileType;
+  const summary = `${description}, ${formatSize(size)}`;
+  const metadata = { mime_type: mimeType, size };
+
+  if (fileType.kind === 'image' && size <= MAX_IMAGE_SIZE) {
+    return {
+      success: true,
+      message: `Image file: ${filePath} (${summary})`,
+      ...metadata,
+      image: { type: 'image', data: buffer.toString('base64'), mimeType },
+    };
+  }
+
+  if (fileType.kind === 'pdf' && size <= MAX_PDF_SIZE) {
+    const pdf = extractPdfText(buffer);
+    const pdfSummary = `${summary}, ${pdf.pages} page(s)${pdf.unreadableStreams > 0 ? `, ${pdf.unreadableStreams} stream(s) damaged or too large to read` : ''}`;
+    if (pdf.text === '') {
+      return {
+        success: true,
+        message: pdf.encrypted
+          ? `PDF file: ${filePath} (${pdfSummary}). The document is encrypted, so its text cannot be extracted.`
+          : `PDF file: ${filePath} (${pdfSummary}). No text could be extracted; the pages may be scanned images or use embedded fonts without a text encoding.`,
+        content: '',
+        ...metadata,
+      };
+    }
+    return {
+      success: true,
+      message: `Text extracted from PDF file: ${filePath} (${pdfSummary}):`,
+      content: clipToOutputLimit(pdf.text, '<response clipped>', outputLimit),
+      ...metadata,
+    };
+  }
+
+  return {
+    success: true,
+    message:
+      fileType.kind === 'image'
+        ? `Image file: ${filePath} (${summary}) is too large to display (limit ${formatSize(MAX_IMAGE_SIZE)}). First ${Math.min(size, HEX_PREVIEW_BYTES)} bytes:`
+        : fileType.kind === 'pdf'
+          ? `PDF file: ${filePath} (${summary}) is too large to extract its text (limit ${formatSize(MAX_PDF_SIZE)}). First ${Math.min(size, HEX_PREVIEW_BYTES)} bytes:`
+          : `Binary file: ${filePath} (${summary}). First ${Math.min(size, HEX_PREVIEW_BYTES)} bytes:`,
+    content: formatHexDump(buffer),
+    ...metadata,
+  };
+};
+
+/**
+ * Resolves `view_range` to the first and last line to show of a file with
+ * `totalLines` lines.
+ */
+const resolveViewRange = (
+  viewRange: number[] | undefined,
+  totalLines: number,
+): { firstLine: number; endLine: number } => {
+  const [start, end] =
+    viewRange && viewRange.length === 2 ? viewRange : [1, -1];
+  const firstLine = Math.max(1, start || 1);
+  if (firstLine > totalLines) {
+    throw new Error(
+      `Invalid view_range: line ${firstLine} is beyond the end of the file (${totalLines} lines)`,
+    );
+  }
+  if (end !== -1 && end < firstLine) {
+    throw new Error(
+      `Invalid view_range: end line ${end} is before start line ${firstLine}`,
+    );
+  }
+  return {
+    firstLine,
+    endLine: end === -1 ? totalLines : Math.min(end, totalLines),
+  };
+};
+
+/**
+ * Builds the `view` response for a text file from its lines starting at
+ * `firstLine`: all of them up to `endLine`, or at least more than fit in the
+ * output limit. Line numbers are added and the output stops at the last
+ * whole line that fits.
+ */
+const formatFileView = (
+  lines: string[],
+  { firstLine, endLine }: { firstLine: number; endLine: number },
+  totalLines: number,
+  outputLimit: number,
+  fileState: Pick<ReturnType, 'hash' | 'encoding' | 'line_ending'>,
+): ReturnType => {
+  const page = formatNumberedPage(lines, firstLine, outputLimit);
+  const truncated = page.lastLine < endLine || page.clipped;
+
+  return {
+    success: true,
+    message: !truncated
+      ? `File content:`
+      : page.lastLine < endLine
+        ? `File content (truncated, showing lines ${firstLine}-${page.lastLine} of ${totalLines}; pass next_range as view_range to see more):`
+        : `File content (truncated, line ${page.lastLine} is too long to show in full):`,
+    content: page.text,
+    ...fileState,
+    total_lines: totalLines,
+    last_line: page.lastLine,
+    next_range:
+      page.lastLine < endLine ? [page.lastLine + 1, endLine] : undefined,
+  };
+};
+
+/**
+ * Reads the first bytes of a file, enough to tell its type.
+ */
+const readFileHead = async (filePath: string): Promise<Buffer> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(FILE_HEAD_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, FILE_HEAD_SIZE, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Views a file of at least LARGE_FILE_SIZE bytes through its line index,
+ * reading only the lines shown. Returns `undefined` for files that cannot be
+ * read line by line, which are viewed the usual way.
+ */
+const viewLargeFile = async (
+  filePath: string,
+  size: number,
+  viewRange: number[] | undefined,
+  outputLimit: number,
+): Promise<CommandResult | undefined> => {
+  const head = await readFileHead(filePath);
+  const fileType = detectFileType(head);
+  if (fileType.kind !== 'text') {
+    // Only PDFs need the whole file, to extract their text
+    const buffer =
+      fileType.kind === 'pdf' && size <= MAX_PDF_SIZE
+        ? await fs.readFile(filePath)
+        : head;
+    return viewBinaryFile(filePath, buffer, size, fileType, outputLimit);
+  }
+
+  const index = await getLineIndex(filePath);
+  if (!index) {
+    return undefined;
+  }
+
+  // Read just past what fits in the output limit, and no line in full if it
+  // is longer than that
+  const range = resolveViewRange(viewRange, index.lineCount);
+  const lines: string[] = [];
+  let length = 0;
+  for await (const line of readLines(
+    filePath,
+    index,
+    range.firstLine,
+    range.endLine,
+    outputLimit * 4,
+  )) {
+    lines.push(line);
+    length += line.length + 1;
+    if (length > outputLimit) {
+      break;
+    }
+  }
+
+  const { hash } = recordSeenHash(filePath, index.hash, index.mtimeMs);
+  return formatFileView(lines, range, index.lineCount, outputLimit, {
+    hash,
+    encoding: index.encoding,
+    line_ending: index.lineEnding,
+  });
+};
+
+/**
+ * Runs `insert` on a file of at least LARGE_FILE_SIZE bytes without reading
+ * it into memory. The old content is too large to keep, so the insert cannot
+ * be undone and only the file's redo history is cleared. Returns `undefined`
+ * for files that cannot be read line by line, or that already have undo
+ * history (which this insert would break), so they are edited the usual way.
+ */
+const insertIntoLargeFile = async (
+  filePath: string,
+  insertLine: number | undefined,
+  newStr: string | undefined,
+  expectedHash: string | undefined,
+  validation: ValidationMode,
+  outputLimit: number,
+): Promise<CommandResult | undefined> => {
+  if (insertLine === undefined) {
+    throw new Error('insert_line parameter is required for insert command');
+  }
+  if (!newStr) {
+    throw new Error('new_str parameter is required for insert command');
+  }
+  // Earlier undo entries would revert past a streamed insert without
+  // knowing about it, so files with history take the regular, undoable path
+  const history = getEditHistory();
+  if ((await history.undo.count(filePath)) > 0) {
+    return undefined;
+  }
+  const index = await getLineIndex(filePath);
+  if (!index) {
+    return undefined;
+  }
+  assertHashUnchanged(filePath, index.hash, expectedHash);
+
+  // The file is never loaded whole, so its syntax cannot be checked
+  const unchecked =
+    validation !== 'off' && detectSyntaxLanguage(filePath) !== undefined;
+  if (unchecked && validation === 'strict') {
+    throw new Error(
+      `Edit refused: ${filePath} is too large to check its syntax in strict validation mode. No files were modified. Pass validate: "report" or "off" to insert without checking.`,
+    );
+  }
+
+  // Read the lines around the insertion to describe the change
+  const firstLine = Math.max(1, insertLine - SNIPPET_LINES + 1);
+  const lastLine = Math.min(index.lineCount, insertLine + SNIPPET_LINES);
+  const context: string[] = [];
+  if (insertLine >= 0 && insertLine <= index.lineCount) {
+    for await (const line of readLines(
+      filePath,
+      index,
+      firstLine,
+      lastLine,
+      outputLimit * 4,
+    )) {
+      context.push(line);
+    }
+  }
+
+  const hash = await insertLines(filePath, index, insertLine, newStr);
+  notifyFileChanged(filePath);
+  const stats = await fs.stat(filePath);
+  updateSeenHash(filePath, hash, stats.mtimeMs);
+  await history.redo.clear(filePath);
+
+  // The excerpt changes the way the whole file did
+  const before = context.join('\n');
+  const inserted = insertAtLine(before, insertLine - firstLine + 1, newStr);
+  const after =
+    index.lineEnding === 'lf' || index.lineEnding === 'crlf'
+      ? convertLineEndings(inserted, index.lineEnding)
+      : inserted;
+  const rest = lastLine < index.lineCount ? '\n' : '';
+
+  return {
+    success: true,
+    message: `Successfully inserted text after line ${insertLine} in ${filePath}. The file is too large to keep in the undo history, so this edit cannot be undone.${unchecked ? ' Its syntax was not checked either.' : ''}`,
+    hash,
+    ...describeChanges(
+      [
+        {
+          path: filePath,
+          before: before + rest,
+          after: after + rest,
+          firstLine,
+        },
+      ],
+      outputLimit,
+    ),
+  };
+};
+
 const textEditorInternal = async ({
   command,
-  path: filePath,
+  path: requestedPath,
   file_text,
+  encoding,
   insert_line,
   new_str,
   old_str,
+  regex,
+  replace_all,
+  occurrence,
+  edits,
+  operations,
+  patch,
+  fuzz,
+  max_offset,
+  pattern,
+  include,
+  exclude,
+  context_lines,
+  sort_by,
+  cursor,
+  line_ending,
+  destination,
+  overwrite,
+  expected_hash,
+  validate,
   view_range,
-}: Parameters): Promise<ReturnType> => {
-  if (!path.isAbsolute(filePath)) {
-    throw new Error('Path must be absolute');
-  }
+  output_limit,
+  depth,
+  label,
+  paths,
+}: Parameters): Promise<CommandResult> => {
+  // Canonicalize the path and enforce the workspace roots / deny list
+  const filePath = await resolveAllowedPath(requestedPath);
+  const history = getEditHistory();
+  const outputLimit =
+    output_limit ?? getSessionSettings().outputLimit ?? defaultOutputLimit;
+  const validation = validate ?? getValidationMode();
 
   switch (command) {
     case 'view': {
@@ -123,99 +1208,161 @@ const textEditorInternal = async ({
       }
 
       if (stats.isDirectory()) {
-        // List directory contents up to 2 levels deep
-        try {
-          const output = execSync(
-            `find "${filePath}" -type f -not -path "*/\\.*" -maxdepth 2 | sort`,
-            { encoding: 'utf8' },
+        // Render the directory as a tree, honouring .gitignore files
+        const tree = await renderDirectoryTree(filePath, {
+          maxDepth: depth ?? 2,
+          outputLimit,
+        });
+        return {
+          success: true,
+          message:
+            tree.omitted > 0
+              ? `Directory listing for ${filePath} (truncated, ${tree.omitted} entries omitted):`
+              : `Directory listing for ${filePath}:`,
+          content: tree.text,
+        };
+      } else {
+        if (stats.size >= LARGE_FILE_SIZE) {
+          const result = await viewLargeFile(
+            filePath,
+            stats.size,
+            view_range,
+            outputLimit,
           );
-          return {
-            success: true,
-            message: `Directory listing for ${filePath}:`,
-            content: output,
-          };
-        } catch (error) {
-          throw new Error(`Error listing directory: ${error}`);
+          if (result) {
+            return result;
+          }
         }
-      } else {
-        // Read file content
-        const content = await fs.readFile(filePath, 'utf8');
-        const lines = content.split('\n');
 
-        // Apply view range if specified
-        let displayContent = content;
-        if (view_range && view_range.length === 2) {
-          const [start, end] = view_range;
-          const startLine = Math.max(1, start || 1) - 1; // Convert to 0-indexed
-          const endLine = end === -1 ? lines.length : end;
-          displayContent = lines.slice(startLine, endLine).join('\n');
+        const buffer = await fs.readFile(filePath);
+        const fileType = detectFileType(buffer);
+        if (fileType.kind !== 'text') {
+          return viewBinaryFile(
+            filePath,
+            buffer,
+            buffer.length,
+            fileType,
+            outputLimit,
+          );
         }
 
-        // Add line numbers
-        const startLineNum =
-          view_range && view_range.length === 2 ? view_range[0] : 1;
-        const numberedContent = displayContent
-          .split('\n')
-          .map((line, i) => `${(startLineNum || 1) + i}: ${line}`)
-          .join('\n');
-
-        // Truncate if too large
-        if (numberedContent.length > OUTPUT_LIMIT) {
-          const truncatedContent = numberedContent.substring(0, OUTPUT_LIMIT);
-          return {
-            success: true,
-            message: `File content (truncated):`,
-            content: `${truncatedContent}\n<response clipped>`,
-          };
-        }
+        // Decode the content and remember what the agent has seen
+        const { content, encoding: fileEncoding } = decodeText(buffer);
+        const { hash } = recordSeenFile(filePath, content, stats.mtimeMs);
+        const lines = content.split('\n');
 
-        return {
-          success: true,
-          message: `File content:`,
-          content: numberedContent,
-        };
+        // Apply view range if specified
+        const range = resolveViewRange(view_range, lines.length);
+        return formatFileView(
+          lines.slice(range.firstLine - 1, range.endLine),
+          range,
+          lines.length,
+          outputLimit,
+          {
+            hash,
+            encoding: fileEncoding,
+            line_ending: detectLineEndings(content),
+          },
+        );
       }
     }
 
-    case 'create': {
-      if (!file_text) {
-        throw new Error('file_text parameter is required for create command');
+    case 'create':
+    case 'str_replace':
+    case 'insert': {
+      if (command === 'insert') {
+        const stats = await fs.stat(filePath).catch(() => null);
+        if (stats && stats.size >= LARGE_FILE_SIZE) {
+          const result = await insertIntoLargeFile(
+            filePath,
+            insert_line,
+            new_str,
+            expected_hash,
+            validation,
+            outputLimit,
+          );
+          if (result) {
+            return result;
+          }
+        }
       }
 
-      // Create parent directories if they don't exist
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-
-      // Check if file already exists
+      // Read the current content, if the file exists
       const fileExists = fsSync.existsSync(filePath);
+      const content = fileExists
+        ? (await readTextFile(filePath)).content
+        : null;
 
-      if (fileExists) {
-        // Save current state for undo if file exists
-        const currentContent = await fs.readFile(filePath, 'utf8');
-        if (!fileStateHistory[filePath]) {
-          fileStateHistory[filePath] = [];
-        }
-        fileStateHistory[filePath].push(currentContent);
+      // Validate the command and compute the new content before writing
+      const {
+        content: updatedContent,
+        replacedLines,
+        fuzzy,
+      } = applyFileEdit(filePath, content, {
+        command,
+        file_text,
+        old_str,
+        new_str,
+        insert_line,
+        regex,
+        replace_all,
+        occurrence,
+      });
+      const syntaxErrors = await validateChanges(
+        [{ path: filePath, before: content, after: updatedContent }],
+        validation,
+      );
+
+      if (content !== null) {
+        // Refuse to overwrite changes the agent has not seen
+        assertNoConflict(filePath, content, expected_hash);
+
+        // Save current state for undo
+        await recordUndoState(history, filePath, content);
       } else {
         // Initialize history for new files
-        fileStateHistory[filePath] = [];
+        await history.undo.clear(filePath);
+        await history.redo.clear(filePath);
       }
 
-      // Create or overwrite the file
-      await fs.writeFile(filePath, file_text, 'utf8');
+      // Create parent directories if they don't exist
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const hash = await writeTrackedFile(
+        filePath,
+        updatedContent,
+        command === 'create' ? encoding : undefined,
+      );
+
+      let message: string;
+      if (command === 'create') {
+        message = fileExists
+          ? `File overwritten: ${filePath}`
+          : `File created: ${filePath}`;
+      } else if (command === 'str_replace') {
+        const count = replacedLines?.length ?? 0;
+        message = `Successfully replaced text in ${filePath} (${count} ${count === 1 ? 'replacement at line' : 'replacements at lines'} ${replacedLines?.join(', ')})`;
+        if (fuzzy) {
+          message += formatFuzzyNotice('old_str');
+        }
+      } else {
+        message = `Successfully inserted text after line ${insert_line} in ${filePath}`;
+      }
 
       return {
         success: true,
-        message: fileExists
-          ? `File overwritten: ${filePath}`
-          : `File created: ${filePath}`,
+        message,
+        hash,
+        syntax_errors: syntaxErrors,
+        ...describeChanges(
+          [{ path: filePath, before: content, after: updatedContent }],
+          outputLimit,
+        ),
       };
     }
 
-    case 'str_replace': {
-      if (!old_str) {
-        throw new Error(
-          'old_str parameter is required for str_replace command',
-        );
+    case 'multi_edit': {
+      if (!edits || edits.length === 0) {
+        throw new Error('edits parameter is required for multi_edit command');
       }
 
       // Ensure the file exists
@@ -223,94 +1370,743 @@ const textEditorInternal = async ({
         throw new Error(`File not found: ${filePath}`);
       }
 
-      // Read the current content
-      const content = await fs.readFile(filePath, 'utf8');
+      // Validate and apply every edit in memory before writing anything
+      const content = (await readTextFile(filePath)).content;
+      const { content: updatedContent, fuzzyEdits } = applyStrReplaceEdits(
+        content,
+        edits,
+      );
+      assertNoConflict(filePath, content, expected_hash);
+      const syntaxErrors = await validateChanges(
+        [{ path: filePath, before: content, after: updatedContent }],
+        validation,
+      );
+
+      // A single undo entry covers the whole batch
+      await recordUndoState(history, filePath, content);
+      const hash = await writeTrackedFile(filePath, updatedContent);
+
+      return {
+        success: true,
+        message:
+          `Successfully applied ${edits.length} edits to ${filePath}` +
+          (fuzzyEdits.length > 0
+            ? formatFuzzyNotice(
+                `old_str of edit ${fuzzyEdits.map((n) => `#${n}`).join(', ')}`,
+                fuzzyEdits.length,
+              )
+            : ''),
+        hash,
+        syntax_errors: syntaxErrors,
+        ...describeChanges(
+          [{ path: filePath, before: content, after: updatedContent }],
+          outputLimit,
+        ),
+      };
+    }
+
+    case 'transaction': {
+      if (!operations || operations.length === 0) {
+        throw new Error(
+          'operations parameter is required for transaction command',
+        );
+      }
+
+      // Validate every operation against the evolving content of its file
+      const files = new Map<
+        string,
+        { original: string | null; content: string | null }
+      >();
+      const fuzzyOperations: number[] = [];
+      for (const [index, operation] of operations.entries()) {
+        try {
+          const operationPath = await resolveAllowedPath(
+            path.resolve(filePath, operation.path),
+          );
+          let file = files.get(operationPath);
+          if (!file) {
+            const original = fsSync.existsSync(operationPath)
+              ? (await readTextFile(operationPath)).content
+              : null;
+            if (original !== null) {
+              assertNoConflict(operationPath, original);
+            }
+            file = { original, content: original };
+            files.set(operationPath, file);
+          }
+          const edited = applyFileEdit(operationPath, file.content, operation);
+          file.content = edited.content;
+          if (edited.fuzzy) {
+            fuzzyOperations.push(index + 1);
+          }
+        } catch (error) {
+          throw new Error(
+            `Operation #${index + 1} of ${operations.length} (${operation.command} ${operation.path}) failed: ${(error as Error).message}. No files were modified.`,
+          );
+        }
+      }
+
+      const changes = [...files].map(([changedPath, file]) => ({
+        path: changedPath,
+        before: file.original,
+        after: file.content,
+      }));
+      const syntaxErrors = await validateChanges(changes, validation);
+
+      // Stage and rename every file into place, rolling back on failure
+      await commitTrackedChanges(
+        changes.map((change) => ({ path: change.path, content: change.after })),
+      );
+
+      // One grouped entry per file so undo_edit reverts them together
+      const group = { id: randomUUID(), paths: [...files.keys()] };
+      for (const [changedPath, file] of files) {
+        await recordUndoState(history, changedPath, file.original, group);
+      }
+
+      return {
+        success: true,
+        message:
+          `Transaction committed: ${operations.length} operation(s) applied to ${files.size} file(s)` +
+          (fuzzyOperations.length > 0
+            ? formatFuzzyNotice(
+                `old_str of operation ${fuzzyOperations.map((n) => `#${n}`).join(', ')}`,
+                fuzzyOperations.length,
+              )
+            : ''),
+        syntax_errors: syntaxErrors,
+        ...describeChanges(changes, outputLimit),
+      };
+    }
+
+    case 'apply_patch': {
+      if (!patch) {
+        throw new Error('patch parameter is required for apply_patch command');
+      }
+
+      // Current and patched content of every file the patch touches
+      type PatchedFile = {
+        path: string;
+        file: {
+          original: string | null;
+          content: string | null;
+          encoding?: TextEncoding;
+        };
+      };
+      const files = new Map<string, PatchedFile['file']>();
+      const loadFile = async (patchPath: string): Promise<PatchedFile> => {
+        const resolvedPath = await resolveAllowedPath(
+          path.resolve(filePath, patchPath),
+        );
+        let file = files.get(resolvedPath);
+        if (!file) {
+          const decoded = fsSync.existsSync(resolvedPath)
+            ? await readTextFile(resolvedPath)
+            : null;
+          const original = decoded?.content ?? null;
+          if (original !== null) {
+            assertNoConflict(resolvedPath, original);
+          }
+          file = { original, content: original, encoding: decoded?.encoding };
+          files.set(resolvedPath, file);
+        }
+        return { path: resolvedPath, file };
+      };
+
+      const report: string[] = [];
+      let hunkCount = 0;
+      let rejectedCount = 0;
+      for (const filePatch of parsePatch(patch)) {
+        const { oldPath, newPath } = filePatch;
+        let source: PatchedFile;
+        let target: PatchedFile | undefined;
+        if (filePatch.rename || oldPath === null || newPath === null) {
+          source = await loadFile(oldPath ?? newPath!);
+          target = newPath ? await loadFile(newPath) : undefined;
+        } else {
+          // Like patch(1), patch whichever name exists, preferring the new one
+          target = await loadFile(newPath);
+          if (target.file.content === null && oldPath !== newPath) {
+            target = await loadFile(oldPath);
+          }
+          source = target;
+        }
 
-      // Check if old_str exists uniquely in the file
-      const occurrences = content.split(old_str).length - 1;
-      if (occurrences === 0) {
-        throw new Error(`The specified old_str was not found in the file`);
+        if (filePatch.oldPath === null && source.file.content !== null) {
+          throw new Error(
+            `Cannot create ${source.path}: file already exists. No files were modified.`,
+          );
+        }
+        if (filePatch.oldPath !== null && source.file.content === null) {
+          throw new Error(
+            `File not found: ${source.path}. No files were modified.`,
+          );
+        }
+        if (
+          target &&
+          target.path !== source.path &&
+          target.file.content !== null
+        ) {
+          throw new Error(
+            `Cannot rename ${source.path} to ${target.path}: target already exists. No files were modified.`,
+          );
+        }
+
+        const patched = applyHunks(source.file.content ?? '', filePatch.hunks, {
+          fuzz,
+          maxOffset: max_offset,
+        });
+        const { results } = patched;
+        const content =
+          source.file.content === null
+            ? patched.content
+            : matchLineEndings(source.file.content, patched.content);
+        const rejected = results.filter((result) => !result.applied).length;
+        hunkCount += results.length;
+        rejectedCount += rejected;
+        report.push(
+          formatHunkReport(
+            filePatch.rename
+              ? `${target!.path} (renamed from ${source.path})`
+              : (target?.path ?? source.path),
+            results,
+          ),
+        );
+
+        if (!target) {
+          // Only delete a file once everything it contained was removed
+          if (rejected > 0) {
+            continue;
+          }
+          if (content !== '') {
+            throw new Error(
+              `Cannot delete ${source.path}: the patch does not remove all of its content. No files were modified.`,
+            );
+          }
+          source.file.content = null;
+        } else {
+          if (target.path !== source.path) {
+            source.file.content = null;
+          }
+          target.file.content = content;
+        }
       }
-      if (occurrences > 1) {
+
+      const changes = [...files]
+        .filter(([, file]) => file.original !== file.content)
+        .map(([changedPath, file]) => ({
+          path: changedPath,
+          before: file.original,
+          after: file.content,
+          encoding: file.encoding,
+        }));
+      if (changes.length === 0) {
         throw new Error(
-          `Found ${occurrences} occurrences of old_str, expected exactly 1`,
+          `Patch could not be applied. No files were modified.\n${report.join('\n')}`,
         );
       }
 
-      // Save current state for undo
-      if (!fileStateHistory[filePath]) {
-        fileStateHistory[filePath] = [];
+      const syntaxErrors = await validateChanges(changes, validation);
+      await commitTrackedChanges(
+        changes.map((change) => ({ path: change.path, content: change.after })),
+      );
+
+      // Grouped entries so a single undo_edit reverts the whole patch
+      const group = { id: randomUUID(), paths: changes.map((c) => c.path) };
+      for (const change of changes) {
+        // Deleted files are written back in the encoding they had
+        await recordUndoState(
+          history,
+          change.path,
+          change.before,
+          group,
+          change.encoding,
+        );
       }
-      fileStateHistory[filePath].push(content);
 
-      // Replace the content
-      const updatedContent = content.replace(old_str, new_str || '');
-      await fs.writeFile(filePath, updatedContent, 'utf8');
+      return {
+        success: true,
+        message:
+          rejectedCount > 0
+            ? `Patch partially applied to ${changes.length} file(s): ${rejectedCount} of ${hunkCount} hunk(s) rejected`
+            : `Patch applied to ${changes.length} file(s)`,
+        content: clipToOutputLimit(
+          report.join('\n'),
+          '<response clipped>',
+          outputLimit,
+        ),
+        diff: formatDiff(changes, outputLimit),
+        changedFiles: changes.map((change) => change.path),
+        syntax_errors: syntaxErrors,
+      };
+    }
+
+    case 'search': {
+      if (!pattern) {
+        throw new Error('pattern parameter is required for search command');
+      }
+      if (!fsSync.existsSync(filePath)) {
+        throw new Error(`File or directory not found: ${filePath}`);
+      }
+
+      const result = await searchFiles(filePath, {
+        pattern,
+        regex,
+        include,
+        exclude,
+        contextLines: context_lines,
+        outputLimit,
+      });
+
+      if (result.matchCount === 0 && !result.truncated) {
+        return {
+          success: true,
+          message: `No matches found for "${pattern}" in ${filePath}`,
+          content: '',
+        };
+      }
 
       return {
         success: true,
-        message: `Successfully replaced text in ${filePath}`,
+        message: result.truncated
+          ? `Found ${result.matchCount} matches in ${result.fileCount} files before reaching the output limit (results truncated, narrow the search with include, exclude or a more specific pattern):`
+          : `Found ${result.matchCount} matches in ${result.fileCount} files:`,
+        content: result.text,
       };
     }
 
-    case 'insert': {
-      if (insert_line === undefined) {
-        throw new Error('insert_line parameter is required for insert command');
+    case 'find_files': {
+      if (!pattern) {
+        throw new Error('pattern parameter is required for find_files command');
       }
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats?.isDirectory()) {
+        throw new Error(`Directory not found: ${filePath}`);
+      }
+
+      const result = await findFiles(filePath, {
+        pattern,
+        exclude,
+        sortBy: sort_by,
+        cursor,
+        outputLimit,
+      });
 
-      if (!new_str) {
-        throw new Error('new_str parameter is required for insert command');
+      if (result.total === 0) {
+        return {
+          success: true,
+          message: `No files matching "${pattern}" found in ${filePath}`,
+          content: '',
+        };
       }
 
-      // Ensure the file exists
+      const first = result.offset + 1;
+      const last = result.offset + result.paths.length;
+      return {
+        success: true,
+        message: result.nextCursor
+          ? `Found ${result.total} files matching "${pattern}", showing ${first}-${last}. Pass the next_cursor to see more:`
+          : `Found ${result.total} files matching "${pattern}"${first > 1 ? `, showing ${first}-${last}` : ''}:`,
+        content: result.paths.join('\n'),
+        next_cursor: result.nextCursor,
+      };
+    }
+
+    case 'normalize_line_endings': {
+      if (!line_ending) {
+        throw new Error(
+          'line_ending parameter is required for normalize_line_endings command',
+        );
+      }
       if (!fsSync.existsSync(filePath)) {
         throw new Error(`File not found: ${filePath}`);
       }
 
-      // Read the current content
-      const content = await fs.readFile(filePath, 'utf8');
-      const lines = content.split('\n');
+      const content = (await readTextFile(filePath)).content;
+      const updatedContent = convertLineEndings(content, line_ending);
+      if (updatedContent === content) {
+        return {
+          success: true,
+          message: `${filePath} already uses ${line_ending} line endings`,
+          line_ending: detectLineEndings(content),
+        };
+      }
+
+      assertNoConflict(filePath, content, expected_hash);
+      await recordUndoState(history, filePath, content);
+      const hash = await writeTrackedFile(filePath, updatedContent);
+
+      return {
+        success: true,
+        message: `Converted ${detectLineEndings(content)} line endings in ${filePath} to ${line_ending}`,
+        hash,
+        line_ending: detectLineEndings(updatedContent),
+        ...describeChanges(
+          [{ path: filePath, before: content, after: updatedContent }],
+          outputLimit,
+        ),
+      };
+    }
 
-      // Validate line number
-      if (insert_line < 0 || insert_line > lines.length) {
+    case 'delete': {
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats) {
+        throw new Error(`File or directory not found: ${filePath}`);
+      }
+      assertNotRoot(filePath, 'delete');
+
+      // Keep every file that goes away so undo_edit can bring it back
+      const files = stats.isDirectory()
+        ? await listFilesRecursive(filePath)
+        : [filePath];
+      const states = await readFileStates(files);
+      for (const state of states) {
+        assertNoConflict(state.path, state.content!);
+      }
+      // ...and the directories, so empty ones come back too
+      if (stats.isDirectory()) {
+        for (const directory of await listDirectoriesRecursive(filePath)) {
+          states.push({ path: directory, content: null, directory: true });
+        }
+      }
+
+      await commitTrackedChanges(
+        files.map((deletedPath) => ({ path: deletedPath, content: null })),
+      );
+      if (stats.isDirectory()) {
+        await fs.rm(filePath, { recursive: true, force: true });
+      }
+      await recordFileOperation(history, states, `delete of ${filePath}`);
+
+      return {
+        success: true,
+        message: stats.isDirectory()
+          ? `Deleted directory ${filePath} (${files.length} file(s))`
+          : `Deleted ${filePath}`,
+        content: clipToOutputLimit(
+          files.join('\n'),
+          '<response clipped>',
+          outputLimit,
+        ),
+        changedFiles: files,
+      };
+    }
+
+    case 'move':
+    case 'copy': {
+      if (!destination) {
         throw new Error(
-          `Invalid line number: ${insert_line}. File has ${lines.length} lines.`,
+          `destination parameter is required for ${command} command`,
         );
       }
+      const destinationPath = await resolveAllowedPath(destination);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats) {
+        throw new Error(`File or directory not found: ${filePath}`);
+      }
+      if (command === 'move') {
+        assertNotRoot(filePath, 'move');
+      }
+      if (destinationPath === filePath) {
+        throw new Error(
+          `Cannot ${command} ${filePath} onto itself: destination is the same path`,
+        );
+      }
+      if (stats.isDirectory() && isWithin(filePath, destinationPath)) {
+        throw new Error(
+          `Cannot ${command} directory ${filePath} into itself (${destinationPath})`,
+        );
+      }
+
+      const destinationStats = await fs.stat(destinationPath).catch(() => null);
+      if (destinationStats?.isDirectory()) {
+        throw new Error(
+          `Destination is an existing directory: ${destinationPath}. Pass the full new path as destination; directories are never replaced.`,
+        );
+      }
+      if (destinationStats && !overwrite) {
+        throw new Error(
+          `Destination already exists: ${destinationPath}. Pass overwrite: true to replace it.`,
+        );
+      }
+      if (destinationStats && stats.isDirectory()) {
+        throw new Error(
+          `Cannot replace file ${destinationPath} with directory ${filePath}`,
+        );
+      }
+
+      const sources = stats.isDirectory()
+        ? await listFilesRecursive(filePath)
+        : [filePath];
+      const targets = sources.map((source) =>
+        path.join(destinationPath, path.relative(filePath, source)),
+      );
+
+      // Every file is checked against the deny list. A move records the
+      // sources it empties, and both commands the targets they replace
+      if (command === 'copy') {
+        await Promise.all(sources.map((source) => resolveAllowedPath(source)));
+      }
+      const sourceStates =
+        command === 'move' ? await readFileStates(sources) : [];
+      const targetStates = await readFileStates(targets);
+      for (const state of targetStates) {
+        if (state.content !== null) {
+          assertNoConflict(state.path, state.content);
+        }
+      }
+      const fileStates = [...sourceStates, ...targetStates];
+
+      // ...and the directories: undo_edit recreates the empty ones a move
+      // takes away and removes the ones either command creates
+      if (stats.isDirectory()) {
+        for (const directory of await listDirectoriesRecursive(filePath)) {
+          if (command === 'move') {
+            sourceStates.push({
+              path: directory,
+              content: null,
+              directory: true,
+            });
+          }
+          targetStates.push({
+            path: path.join(
+              destinationPath,
+              path.relative(filePath, directory),
+            ),
+            content: null,
+          });
+        }
+      }
+      let parent = path.dirname(destinationPath);
+      while (!fsSync.existsSync(parent)) {
+        targetStates.push({ path: parent, content: null });
+        parent = path.dirname(parent);
+      }
 
-      // Save current state for undo
-      if (!fileStateHistory[filePath]) {
-        fileStateHistory[filePath] = [];
+      if (command === 'move') {
+        await movePath(filePath, destinationPath);
+      } else {
+        await copyPath(filePath, destinationPath);
       }
-      fileStateHistory[filePath].push(content);
+      const changedFiles = fileStates.map((state) => state.path);
+      forgetFiles(changedFiles);
+      await recordFileOperation(
+        history,
+        [...sourceStates, ...targetStates],
+        `${command} of ${filePath} to ${destinationPath}`,
+      );
 
-      // Insert the new content after the specified line
-      lines.splice(insert_line, 0, new_str);
-      const updatedContent = lines.join('\n');
-      await fs.writeFile(filePath, updatedContent, 'utf8');
+      return {
+        success: true,
+        message: `${command === 'move' ? 'Moved' : 'Copied'} ${filePath} to ${destinationPath}${stats.isDirectory() ? ` (${targets.length} file(s))` : ''}`,
+        content: clipToOutputLimit(
+          targets.join('\n'),
+          '<response clipped>',
+          outputLimit,
+        ),
+        changedFiles,
+      };
+    }
+
+    case 'mkdir': {
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats && !stats.isDirectory()) {
+        throw new Error(
+          `Cannot create directory ${filePath}: a file with that name exists`,
+        );
+      }
+      const created = await fs.mkdir(filePath, { recursive: true });
+
+      // Every level that was created, so undo_edit removes them all
+      if (created) {
+        const createdDirectories = [filePath];
+        while (createdDirectories.at(-1) !== created) {
+          createdDirectories.push(path.dirname(createdDirectories.at(-1)!));
+        }
+        await recordFileOperation(
+          history,
+          createdDirectories.map((directory) => ({
+            path: directory,
+            content: null,
+          })),
+          `mkdir of ${filePath}`,
+        );
+      }
 
       return {
         success: true,
-        message: `Successfully inserted text after line ${insert_line} in ${filePath}`,
+        message: stats
+          ? `Directory already exists: ${filePath}`
+          : `Created directory ${filePath}`,
+        changedFiles: stats ? [] : [filePath],
       };
     }
 
     case 'undo_edit': {
-      // Check if we have history for this file
-      if (
-        !fileStateHistory[filePath] ||
-        fileStateHistory[filePath].length === 0
-      ) {
+      // Apply the previous state, if we have history for this file, and
+      // keep the state being reverted so redo_edit can reapply it
+      const reverted = await moveHistoryState(
+        history.undo,
+        history.redo,
+        filePath,
+      );
+      if (!reverted) {
         throw new Error(`No edit history found for ${filePath}`);
       }
 
-      // Get the previous state
-      const previousState = fileStateHistory[filePath].pop();
-      await fs.writeFile(filePath, previousState as string, 'utf8');
+      const { changes, group } = reverted;
+      return {
+        success: true,
+        message:
+          changes.length > 1
+            ? `Successfully reverted ${describeGroup(group, changes)}`
+            : `Successfully reverted last edit to ${filePath}`,
+        ...describeChanges(changes, outputLimit),
+      };
+    }
+
+    case 'redo_edit': {
+      const reapplied = await moveHistoryState(
+        history.redo,
+        history.undo,
+        filePath,
+      );
+      if (!reapplied) {
+        throw new Error(`No undone edits to redo for ${filePath}`);
+      }
+
+      const { changes, group } = reapplied;
+      return {
+        success: true,
+        message:
+          changes.length > 1
+            ? `Successfully reapplied ${describeGroup(group, changes)}`
+            : `Successfully reapplied last undone edit to ${filePath}`,
+        ...describeChanges(changes, outputLimit),
+      };
+    }
+
+    case 'checkpoint': {
+      if (!label) {
+        throw new Error('label parameter is required for checkpoint command');
+      }
+
+      const filePaths = paths?.length
+        ? await Promise.all(paths.map((p) => resolveAllowedPath(p)))
+        : [filePath];
+
+      const files = await Promise.all(
+        filePaths.map(async (checkpointPath) => {
+          const stats = await fs.stat(checkpointPath).catch(() => null);
+          if (stats?.isDirectory()) {
+            throw new Error(`Cannot checkpoint a directory: ${checkpointPath}`);
+          }
+          if (!stats) {
+            return { path: checkpointPath, content: null };
+          }
+          const { content, encoding } =
+            await readRestorableFile(checkpointPath);
+          return { path: checkpointPath, content, encoding };
+        }),
+      );
+
+      await history.checkpoints.save({ label, timestamp: Date.now(), files });
+
+      return {
+        success: true,
+        message: `Checkpoint "${label}" saved with ${files.length} file(s)`,
+        content: files.map((file) => file.path).join('\n'),
+      };
+    }
+
+    case 'restore_checkpoint': {
+      if (!label) {
+        throw new Error(
+          'label parameter is required for restore_checkpoint command',
+        );
+      }
+
+      const checkpoint = await history.checkpoints.load(label);
+      if (!checkpoint) {
+        const labels = await history.checkpoints.list();
+        throw new Error(
+          `Checkpoint not found: "${label}". Available checkpoints: ${labels.length ? labels.join(', ') : 'none'}`,
+        );
+      }
+
+      // Re-check every path against the current policy before touching disk
+      const files = await Promise.all(
+        checkpoint.files.map(async (file) => ({
+          ...file,
+          path: await resolveAllowedPath(file.path),
+        })),
+      );
+
+      const changes = await Promise.all(
+        files.map(async (file) => {
+          const decoded = fsSync.existsSync(file.path)
+            ? await readRestorableFile(file.path)
+            : null;
+          if (decoded) {
+            assertNoConflict(file.path, decoded.content);
+          }
+          return {
+            ...file,
+            current: decoded?.content ?? null,
+            currentEncoding: decoded?.encoding,
+          };
+        }),
+      );
+
+      // Restore every file or none of them
+      await commitTrackedChanges(changes);
+
+      // One grouped entry per file so undo_edit reverts the whole restore
+      const group = { id: randomUUID(), paths: files.map((file) => file.path) };
+      for (const change of changes) {
+        await recordUndoState(
+          history,
+          change.path,
+          change.current,
+          group,
+          change.currentEncoding,
+        );
+      }
+
+      return {
+        success: true,
+        message: `Restored checkpoint "${label}" (${files.length} file(s))`,
+        content: files.map((file) => file.path).join('\n'),
+        diff: formatDiff(
+          changes.map((change) => ({
+            path: change.path,
+            before: change.current,
+            after: change.content,
+          })),
+          outputLimit,
+        ),
+        changedFiles: files.map((file) => file.path),
+      };
+    }
+
+    case 'history': {
+      const entries = getAuditLog()
+        .filter((entry) =>
+          entry.files.some((changedPath) => isWithin(filePath, changedPath)),
+        )
+        .reverse();
 
       return {
         success: true,
-        message: `Successfully reverted last edit to ${filePath}`,
+        message:
+          entries.length > 0
+            ? `${entries.length} change(s) to ${filePath} in this session, newest first`
+            : `No changes to ${filePath} in this session`,
+        content: clipToOutputLimit(
+          formatAuditLog(entries).trimEnd(),
+          '<history clipped>',
+          outputLimit,
+        ),
       };
     }
 
@@ -0,0 +1,50 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { writeFileAtomic } from '../../../src/lib/atomicWrite';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('atomicWrite', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('atomicWrite-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the content without leaving temporary files', async () => {
+      const filePath = path.join(testDir, 'file.txt');
+      await fs.writeFile(filePath, 'old', 'utf8');
+
+      await writeFileAtomic(filePath, 'new');
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe('new');
+      expect(await fs.readdir(testDir)).toEqual(['file.txt']);
+    });
+
+    it.skipIf(process.platform === 'win32')(
+      'should preserve the mode of an existing file',
+      async () => {
+        const filePath = path.join(testDir, 'script.sh');
+        await fs.writeFile(filePath, '#!/bin/sh\n', 'utf8');
+        await fs.chmod(filePath, 0o750);
+
+        await writeFileAtomic(filePath, '#!/bin/sh\necho hi\n');
+
+        const stats = await fs.stat(filePath);
+        expect(stats.mode & 0o777).toBe(0o750);
+      },
+    );
+  });
+});
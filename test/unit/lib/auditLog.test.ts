@@ -0,0 +1,77 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  configureAuditLog,
+  forgetAuditLog,
+  formatAuditLog,
+  getAuditLog,
+  recordAuditEntry,
+} from '../../../src/lib/auditLog';
+import { runInSession } from '../../../src/lib/sessionContext';
+import {
+  cleanupTempTestDir,
+  createTempTestDir,
+} from '../../helpers/fileSystem';
+
+describe('auditLog', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir('audit-log');
+  });
+
+  afterEach(async () => {
+    configureAuditLog();
+    await cleanupTempTestDir(tempDir);
+  });
+
+  it('should keep the entries of each session apart', async () => {
+    configureAuditLog();
+    await runInSession('first', () =>
+      recordAuditEntry({ command: 'create', path: '/a', files: ['/a'] }),
+    );
+    await runInSession('second', () =>
+      recordAuditEntry({ command: 'delete', path: '/b', files: ['/b'] }),
+    );
+
+    expect(getAuditLog('first')).toMatchObject([
+      { sessionId: 'first', command: 'create', path: '/a' },
+    ]);
+    expect(runInSession('second', () => getAuditLog())).toMatchObject([
+      { sessionId: 'second', command: 'delete' },
+    ]);
+
+    forgetAuditLog('first');
+    expect(getAuditLog('first')).toEqual([]);
+  });
+
+  it('should append every entry to the audit log file as JSON Lines', async () => {
+    const logFile = path.join(tempDir, 'logs', 'audit.jsonl');
+    configureAuditLog(logFile);
+    const first = await recordAuditEntry({
+      command: 'create',
+      description: 'Add a file',
+      path: '/a',
+      files: ['/a'],
+      diff: '+x\n',
+    });
+    const second = await runInSession('other', () =>
+      recordAuditEntry({ command: 'mkdir', path: '/d', files: ['/d'] }),
+    );
+
+    const text = await fs.readFile(logFile, 'utf8');
+    expect(text).toBe(formatAuditLog([first, second]));
+    expect(text.split('\n').map((line) => line && JSON.parse(line))).toEqual([
+      first,
+      second,
+      '',
+    ]);
+
+    // Forgetting a session only drops what is kept in memory
+    forgetAuditLog('other');
+    expect(await fs.readFile(logFile, 'utf8')).toBe(text);
+  });
+});
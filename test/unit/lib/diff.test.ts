@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+import { changedLineRange, createUnifiedDiff } from '../../../src/lib/diff';
+
+const paths = { oldPath: '/repo/file.txt', newPath: '/repo/file.txt' };
+
+describe('diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical texts', () => {
+      expect(createUnifiedDiff('a\nb\n', 'a\nb\n', paths)).toBe('');
+    });
+
+    it('should render a hunk with surrounding context', () => {
+      const oldText = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n';
+      const newText = 'one\ntwo\nthree\nFOUR\nfive\nsix\nseven\n';
+
+      expect(createUnifiedDiff(oldText, newText, paths)).toBe(
+        [
+          '--- /repo/file.txt',
+          '+++ /repo/file.txt',
+          '@@ -1,7 +1,7 @@',
+          ' one',
+          ' two',
+          ' three',
+          '-four',
+          '+FOUR',
+          ' five',
+          ' six',
+          ' seven',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const changed = [...lines];
+      changed[1] = 'changed 2';
+      changed[17] = 'changed 18';
+
+      const diff = createUnifiedDiff(
+        `${lines.join('\n')}\n`,
+        `${changed.join('\n')}\n`,
+        { ...paths, context: 1 },
+      );
+
+      expect(diff).toContain('@@ -1,3 +1,3 @@');
+      expect(diff).toContain('@@ -17,3 +17,3 @@');
+    });
+
+    it('should mark created files and missing final newlines', () => {
+      expect(
+        createUnifiedDiff('', 'hello', { ...paths, oldPath: '/dev/null' }),
+      ).toBe(
+        [
+          '--- /dev/null',
+          '+++ /repo/file.txt',
+          '@@ -0,0 +1,1 @@',
+          '+hello',
+          '\\ No newline at end of file',
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('changedLineRange', () => {
+    it('should return the changed lines of the new text', () => {
+      expect(changedLineRange('a\nb\nc\nd', 'a\nB\nC\nd')).toEqual({
+        start: 2,
+        end: 3,
+      });
+    });
+
+    it('should position pure deletions between the remaining lines', () => {
+      expect(changedLineRange('a\nb\nc', 'a\nc')).toEqual({ start: 2, end: 1 });
+      expect(changedLineRange('same', 'same')).toBeUndefined();
+    });
+  });
+});
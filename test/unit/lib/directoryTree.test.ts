@@ -0,0 +1,84 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  formatSize,
+  renderDirectoryTree,
+} from '../../../src/lib/directoryTree';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('directoryTree', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('directoryTree-test');
+    await fs.mkdir(path.join(testDir, 'src/lib/deep'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'build'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'README.md'), 'hello', 'utf8');
+    await fs.writeFile(path.join(testDir, '.env'), 'SECRET=1', 'utf8');
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'build/\n', 'utf8');
+    await fs.writeFile(path.join(testDir, 'build/out.js'), '', 'utf8');
+    await fs.writeFile(path.join(testDir, 'src/index.ts'), 'x'.repeat(2048));
+    await fs.writeFile(path.join(testDir, 'src/lib/util.ts'), '', 'utf8');
+    await fs.writeFile(path.join(testDir, 'src/lib/deep/hidden.ts'), '');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should render a tree with sizes, skipping hidden and ignored entries', async () => {
+    const tree = await renderDirectoryTree(testDir, {
+      maxDepth: 3,
+      outputLimit: 10000,
+    });
+
+    expect(tree.text).toBe(
+      [
+        `${testDir}/`,
+        '├── src/',
+        '│   ├── lib/',
+        '│   │   ├── deep/',
+        '│   │   └── util.ts (0 B)',
+        '│   └── index.ts (2.0 KB)',
+        '└── README.md (5 B)',
+      ].join('\n'),
+    );
+    expect(tree).toMatchObject({ shown: 6, omitted: 0 });
+  });
+
+  it('should list ignored entries when asked not to respect .gitignore', async () => {
+    const tree = await renderDirectoryTree(testDir, {
+      maxDepth: 1,
+      respectGitignore: false,
+      outputLimit: 10000,
+    });
+
+    expect(tree.text).toContain('build/');
+    expect(tree.text).not.toContain('out.js');
+  });
+
+  it('should count the entries that do not fit in the output limit', async () => {
+    const tree = await renderDirectoryTree(testDir, {
+      maxDepth: 3,
+      outputLimit: testDir.length + 30,
+    });
+
+    expect(tree.shown).toBe(2);
+    expect(tree.omitted).toBe(4);
+    expect(tree.text).toMatch(/<4 more entries omitted>$/);
+  });
+
+  it('should format sizes with binary units', () => {
+    expect(formatSize(512)).toBe('512 B');
+    expect(formatSize(1536)).toBe('1.5 KB');
+    expect(formatSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
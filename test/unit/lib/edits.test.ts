@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+
+import { replaceMatches } from '../../../src/lib/edits';
+
+const content = 'let count = 0;\ncount += 1;\nlog(count);\n';
+
+describe('edits', () => {
+  describe('replaceMatches', () => {
+    it('should require a unique match by default', () => {
+      expect(() => replaceMatches(content, 'count', 'total')).toThrow(
+        'Found 3 occurrences of old_str, expected exactly 1',
+      );
+      expect(replaceMatches(content, 'log(', 'print(')).toEqual({
+        content: 'let count = 0;\ncount += 1;\nprint(count);\n',
+        lines: [3],
+      });
+    });
+
+    it('should replace every match with replace_all', () => {
+      expect(
+        replaceMatches(content, 'count', 'total', { replace_all: true }),
+      ).toEqual({
+        content: 'let total = 0;\ntotal += 1;\nlog(total);\n',
+        lines: [1, 2, 3],
+      });
+    });
+
+    it('should replace only the requested occurrence', () => {
+      expect(
+        replaceMatches(content, 'count', 'total', { occurrence: 2 }).content,
+      ).toBe('let count = 0;\ntotal += 1;\nlog(count);\n');
+      expect(() =>
+        replaceMatches(content, 'count', 'total', { occurrence: 4 }),
+      ).toThrow('occurrence 4 does not exist');
+      expect(() =>
+        replaceMatches(content, 'count', 'total', {
+          occurrence: 1,
+          replace_all: true,
+        }),
+      ).toThrow('cannot be used together');
+    });
+
+    it('should expand capture groups in regex mode', () => {
+      const result = replaceMatches(
+        'a = 1\nbb = 22\n',
+        '^(\\w+) = (?<value>\\d+)$',
+        'const $1 = $<value>; // $$',
+        { regex: true, replace_all: true },
+      );
+
+      expect(result).toEqual({
+        content: 'const a = 1; // $\nconst bb = 22; // $\n',
+        lines: [1, 2],
+      });
+    });
+
+    it('should report lines in the new content when replacements add lines', () => {
+      const result = replaceMatches('x\ny\nx\n', 'x', 'one\ntwo', {
+        replace_all: true,
+      });
+
+      expect(result.lines).toEqual([1, 4]);
+    });
+
+    it('should keep dollar signs literal outside regex mode', () => {
+      expect(replaceMatches('price', 'price', '$1 $&').content).toBe('$1 $&');
+    });
+
+    it('should report invalid and unmatched patterns', () => {
+      expect(() => replaceMatches(content, '(', '', { regex: true })).toThrow(
+        'Invalid regular expression in old_str',
+      );
+      expect(() =>
+        replaceMatches(content, 'missing\\d', '', { regex: true }),
+      ).toThrow('The specified old_str pattern did not match the file');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  decodeText,
+  detectEncoding,
+  encodeText,
+  TEXT_ENCODINGS,
+} from '../../../src/lib/encoding';
+
+describe('encoding', () => {
+  it('should detect byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe(
+      'utf8-bom',
+    );
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe(
+      'utf16le',
+    );
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61]))).toBe(
+      'utf16be',
+    );
+  });
+
+  it('should fall back to latin1 for invalid UTF-8', () => {
+    expect(detectEncoding(Buffer.from('café', 'utf8'))).toBe('utf8');
+    expect(detectEncoding(Buffer.from('café', 'latin1'))).toBe('latin1');
+    expect(detectEncoding(Buffer.alloc(0))).toBe('utf8');
+  });
+
+  it('should round-trip text through every encoding', () => {
+    const text = 'naïve café\r\nline two\n';
+    for (const encoding of TEXT_ENCODINGS) {
+      const encoded = encodeText(text, encoding);
+      expect(decodeText(encoded)).toEqual({ content: text, encoding });
+    }
+  });
+
+  it('should keep the byte order mark out of the content', () => {
+    expect(decodeText(Buffer.from([0xef, 0xbb, 0xbf, 0x61])).content).toBe('a');
+  });
+
+  it('should refuse characters latin1 cannot represent', () => {
+    expect(() => encodeText('price: 5 €', 'latin1')).toThrow(
+      'Cannot encode "€" (U+20AC) in latin1',
+    );
+  });
+});
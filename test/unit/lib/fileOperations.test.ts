@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  copyPath,
+  listFilesRecursive,
+  movePath,
+  readRestorableFile,
+} from '../../../src/lib/fileOperations';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('fileOperations', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('file-operations-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should list files recursively, hidden ones included', async () => {
+    await fs.mkdir(path.join(testDir, 'dir/sub'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'dir/empty'));
+    await fs.writeFile(path.join(testDir, 'dir/b.txt'), 'b');
+    await fs.writeFile(path.join(testDir, 'dir/.hidden'), 'h');
+    await fs.writeFile(path.join(testDir, 'dir/sub/a.txt'), 'a');
+
+    expect(await listFilesRecursive(path.join(testDir, 'dir'))).toEqual([
+      path.join(testDir, 'dir/.hidden'),
+      path.join(testDir, 'dir/b.txt'),
+      path.join(testDir, 'dir/sub/a.txt'),
+    ]);
+  });
+
+  it('should refuse directories containing symbolic links', async () => {
+    await fs.mkdir(path.join(testDir, 'linked'));
+    await fs.symlink('/tmp', path.join(testDir, 'linked/link'));
+
+    await expect(
+      listFilesRecursive(path.join(testDir, 'linked')),
+    ).rejects.toThrow('contains a symbolic link');
+  });
+
+  it('should read binary files so they can be written back', async () => {
+    const filePath = path.join(testDir, 'binary.bin');
+    await fs.writeFile(filePath, Buffer.from([0x00, 0xff, 0x80, 0x0a]));
+
+    const decoded = await readRestorableFile(filePath);
+    expect(decoded.encoding).toBe('latin1');
+    expect(Buffer.from(decoded.content, 'latin1')).toEqual(
+      Buffer.from([0x00, 0xff, 0x80, 0x0a]),
+    );
+  });
+
+  it('should refuse files that would not round-trip', async () => {
+    const filePath = path.join(testDir, 'odd.txt');
+    await fs.writeFile(filePath, Buffer.from([0xff, 0xfe, 0x61, 0x00, 0x62]));
+
+    await expect(readRestorableFile(filePath)).rejects.toThrow(
+      'could not be restored',
+    );
+  });
+
+  it('should move and copy into new parent directories', async () => {
+    const source = path.join(testDir, 'source.txt');
+    await fs.writeFile(source, 'content');
+
+    await copyPath(source, path.join(testDir, 'copies/copy.txt'));
+    await movePath(source, path.join(testDir, 'moved/source.txt'));
+
+    expect(
+      await fs.readFile(path.join(testDir, 'copies/copy.txt'), 'utf8'),
+    ).toBe('content');
+    expect(
+      await fs.readFile(path.join(testDir, 'moved/source.txt'), 'utf8'),
+    ).toBe('content');
+    await expect(fs.access(source)).rejects.toThrow();
+  });
+});
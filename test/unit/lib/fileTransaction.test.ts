@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { commitFileChanges } from '../../../src/lib/fileTransaction';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('fileTransaction', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('fileTransaction-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  describe('commitFileChanges', () => {
+    it('should write, create and delete files', async () => {
+      const existing = path.join(testDir, 'existing.txt');
+      const removed = path.join(testDir, 'removed.txt');
+      const created = path.join(testDir, 'nested', 'created.txt');
+      await fs.writeFile(existing, 'old', 'utf8');
+      await fs.writeFile(removed, 'bye', 'utf8');
+
+      await commitFileChanges([
+        { path: existing, content: 'new' },
+        { path: removed, content: null },
+        { path: created, content: 'hello' },
+      ]);
+
+      expect(await fs.readFile(existing, 'utf8')).toBe('new');
+      expect(await fs.readFile(created, 'utf8')).toBe('hello');
+      await expect(fs.stat(removed)).rejects.toThrow();
+    });
+
+    it('should roll back applied changes when a later change fails', async () => {
+      const existing = path.join(testDir, 'existing.txt');
+      const created = path.join(testDir, 'created.txt');
+      const blocked = path.join(testDir, 'blocked');
+      await fs.writeFile(existing, 'old', 'utf8');
+      // Renaming a file over a non-empty directory fails
+      await fs.mkdir(path.join(blocked, 'child'), { recursive: true });
+
+      await expect(
+        commitFileChanges([
+          { path: existing, content: 'new' },
+          { path: created, content: 'hello' },
+          { path: blocked, content: 'cannot replace a directory' },
+        ]),
+      ).rejects.toThrow('All changes were rolled back');
+
+      expect(await fs.readFile(existing, 'utf8')).toBe('old');
+      await expect(fs.stat(created)).rejects.toThrow();
+      // No staged temporary files are left behind
+      expect((await fs.readdir(testDir)).sort()).toEqual([
+        'blocked',
+        'existing.txt',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  detectFileType,
+  detectMimeType,
+  formatHexDump,
+  mimeTypeFromExtension,
+} from '../../../src/lib/fileType';
+
+describe('fileType', () => {
+  it('should recognise images, PDFs and executables by magic number', () => {
+    expect(
+      detectFileType(Buffer.from('89504e470d0a1a0a0000000d', 'hex')),
+    ).toEqual({
+      kind: 'image',
+      mimeType: 'image/png',
+      description: 'PNG image',
+    });
+    expect(detectFileType(Buffer.from('%PDF-1.7\n')).kind).toBe('pdf');
+    expect(
+      detectFileType(Buffer.from('\x7fELF\x02\x01\x01\x00', 'latin1')),
+    ).toMatchObject({ kind: 'binary', description: 'ELF executable' });
+  });
+
+  it('should treat short signatures in text as text', () => {
+    expect(detectFileType(Buffer.from('BMW models\n'))).toEqual({
+      kind: 'text',
+    });
+    expect(detectFileType(Buffer.from('MZ\x00\x01', 'latin1'))).toMatchObject({
+      kind: 'binary',
+      description: 'Windows executable',
+    });
+  });
+
+  it('should detect unknown binary content and keep UTF-16 as text', () => {
+    expect(detectFileType(Buffer.from([0x01, 0x00, 0x02]))).toMatchObject({
+      kind: 'binary',
+      mimeType: 'application/octet-stream',
+    });
+    expect(detectFileType(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toEqual({
+      kind: 'text',
+    });
+  });
+
+  it('should render a hex dump', () => {
+    const buffer = Buffer.from('Hello\x00world, this is binary', 'latin1');
+    expect(formatHexDump(buffer, 20)).toBe(
+      '00000000: 4865 6c6c 6f00 776f 726c 642c 2074 6869  Hello.world, thi\n' +
+        '00000010: 7320 6973                                s is',
+    );
+  });
+
+  it('should tell MIME types by content first and extension second', () => {
+    expect(mimeTypeFromExtension('/src/App.TSX')).toBe('text/x-typescript');
+    expect(mimeTypeFromExtension('/src/.constructor')).toBeUndefined();
+    expect(detectMimeType('/a/notes.md', Buffer.from('# Notes'))).toBe(
+      'text/markdown',
+    );
+    expect(detectMimeType('/a/LICENSE', Buffer.from('MIT'))).toBe('text/plain');
+    expect(
+      detectMimeType('/a/image.txt', Buffer.from('89504e470d0a1a0a', 'hex')),
+    ).toBe('image/png');
+    expect(detectMimeType('/a/data.bin', Buffer.from([0, 1, 2]))).toBe(
+      'application/octet-stream',
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { notifyFileChanged, watchFile } from '../../../src/lib/fileWatcher';
+import {
+  cleanupTempTestDir,
+  createTempTestDir,
+} from '../../helpers/fileSystem';
+
+describe('fileWatcher', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir('file-watcher');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(tempDir);
+  });
+
+  it('should report a change made on disk once', async () => {
+    const filePath = path.join(tempDir, 'external.txt');
+    await fs.writeFile(filePath, 'one');
+    const onChange = vi.fn();
+    const unwatch = watchFile(filePath, onChange);
+
+    await fs.writeFile(filePath, 'two');
+    await fs.appendFile(filePath, 'three');
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(onChange).toHaveBeenCalledTimes(1);
+    unwatch();
+  });
+
+  it('should keep watching a file replaced by a rename', async () => {
+    const filePath = path.join(tempDir, 'renamed.txt');
+    await fs.writeFile(filePath, 'one');
+    const onChange = vi.fn();
+    const unwatch = watchFile(filePath, onChange);
+
+    for (const content of ['two', 'three']) {
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
+      const calls = onChange.mock.calls.length;
+      await vi.waitFor(() =>
+        expect(onChange.mock.calls.length).toBeGreaterThan(calls),
+      );
+    }
+    unwatch();
+  });
+
+  it('should report changes made through the editor and stop once unwatched', async () => {
+    const filePath = path.join(tempDir, 'missing', 'notified.txt');
+    const onChange = vi.fn();
+    const unwatch = watchFile(filePath, onChange);
+
+    notifyFileChanged(filePath);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+
+    unwatch();
+    notifyFileChanged(filePath);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { findFiles } from '../../../src/lib/findFiles';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('findFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('findFiles-test');
+    await fs.mkdir(path.join(testDir, 'src/lib'), { recursive: true });
+    for (const [index, file] of [
+      'src/index.ts',
+      'src/index.test.ts',
+      'src/lib/util.ts',
+      'src/lib/util.test.ts',
+      'README.md',
+    ].entries()) {
+      const filePath = path.join(testDir, file);
+      await fs.writeFile(filePath, '', 'utf8');
+      // Distinct modification times, the first file being the oldest
+      const time = new Date(Date.UTC(2024, 0, 1 + index));
+      await fs.utimes(filePath, time, time);
+    }
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should match globs against relative paths, sorted by path', async () => {
+    const result = await findFiles(testDir, {
+      pattern: 'src/**/*.test.ts',
+      outputLimit: 10000,
+    });
+
+    expect(result.paths).toEqual([
+      path.join(testDir, 'src/index.test.ts'),
+      path.join(testDir, 'src/lib/util.test.ts'),
+    ]);
+    expect(result.total).toBe(2);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('should sort by modification time, newest first, and apply excludes', async () => {
+    const result = await findFiles(testDir, {
+      pattern: '*.ts',
+      exclude: ['*.test.ts'],
+      sortBy: 'mtime',
+      outputLimit: 10000,
+    });
+
+    expect(result.paths).toEqual([
+      path.join(testDir, 'src/lib/util.ts'),
+      path.join(testDir, 'src/index.ts'),
+    ]);
+  });
+
+  it('should paginate with a cursor', async () => {
+    const pageSize = path.join(testDir, 'src/index.test.ts').length * 2 + 2;
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await findFiles(testDir, {
+        pattern: '**',
+        cursor,
+        outputLimit: pageSize,
+      });
+      expect(page.total).toBe(5);
+      seen.push(...page.paths);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(5);
+    expect(new Set(seen).size).toBe(5);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(
+      findFiles(testDir, {
+        pattern: '*',
+        cursor: 'not-a-cursor',
+        outputLimit: 10000,
+      }),
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
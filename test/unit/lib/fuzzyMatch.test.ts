@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+
+import { replaceMatches } from '../../../src/lib/edits';
+import {
+  adaptReplacement,
+  findClosestRegions,
+  findWhitespaceInsensitiveMatches,
+} from '../../../src/lib/fuzzyMatch';
+
+const source = [
+  'function greet(name) {',
+  '\tif (name) {',
+  '\t\treturn `Hello ${name}`;  ',
+  '\t}',
+  '\treturn "Hello";',
+  '}',
+  '',
+].join('\n');
+
+describe('fuzzyMatch', () => {
+  describe('findWhitespaceInsensitiveMatches', () => {
+    it('should match despite indentation, tabs and trailing spaces', () => {
+      const matches = findWhitespaceInsensitiveMatches(
+        source,
+        '  if (name) {\n    return `Hello ${name}`;\n  }\n',
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].text).toBe(
+        'if (name) {\n\t\treturn `Hello ${name}`;  \n\t}\n',
+      );
+    });
+
+    it('should match LF text against CRLF content', () => {
+      const crlf = source.replace(/\n/g, '\r\n');
+      expect(
+        findWhitespaceInsensitiveMatches(crlf, '}\n  return "Hello";'),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('adaptReplacement', () => {
+    it('should translate new_str to the indentation of the match', () => {
+      expect(
+        adaptReplacement(
+          '  if (name) {\n    return name;\n  }\n',
+          '  if (name) {\n    return `Hello ${name}`;\n  }\n',
+          '\tif (name) {\n\t\treturn `Hello ${name}`;  \n\t}\n',
+          '\n',
+        ),
+      ).toBe('if (name) {\n\t\treturn name;\n\t}\n');
+    });
+  });
+
+  describe('findClosestRegions', () => {
+    it('should rank the most similar region first', () => {
+      const [best] = findClosestRegions(
+        source,
+        'if (nam) {\n  return `Hi ${name}`;',
+      );
+
+      expect(best).toMatchObject({ start: 2, end: 3 });
+      expect(best.score).toBeGreaterThan(0.5);
+    });
+  });
+
+  describe('replaceMatches fallback', () => {
+    it('should replace a unique whitespace-insensitive match', () => {
+      const result = replaceMatches(
+        source,
+        '    return "Hello";\n}',
+        '    return "Hi";\n}',
+      );
+
+      expect(result.fuzzy).toBe(true);
+      expect(result.lines).toEqual([5]);
+      expect(result.content).toContain('\treturn "Hi";\n}\n');
+    });
+
+    it('should still require a unique match', () => {
+      expect(() => replaceMatches('a  b\na\tb\n', 'a b', 'c')).toThrow(
+        'Ignoring whitespace it matches 2 places (lines 1, 2)',
+      );
+    });
+
+    it('should list the closest regions when nothing matches', () => {
+      expect(() =>
+        replaceMatches(source, 'return "Hello!";', 'return "Hi";'),
+      ).toThrow(
+        /not found in the file\. Closest matches:\nLines 5-5 \(\d+% similar\):\n5: \treturn "Hello";/,
+      );
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import * as path from 'path';
+
+import { describe, it, expect } from 'vitest';
+
+import { isIgnored, parseGitignore } from '../../../src/lib/gitignore';
+
+const root = path.resolve('/repo');
+const rulesFor = (text: string) => [
+  { baseDir: root, rules: parseGitignore(text) },
+];
+
+describe('gitignore', () => {
+  it('should match unanchored patterns against any path segment name', () => {
+    const stack = rulesFor('# build output\n*.log\nnode_modules\n');
+
+    expect(isIgnored(stack, path.join(root, 'debug.log'), false)).toBe(true);
+    expect(isIgnored(stack, path.join(root, 'a/b/trace.log'), false)).toBe(
+      true,
+    );
+    expect(isIgnored(stack, path.join(root, 'pkg/node_modules'), true)).toBe(
+      true,
+    );
+    expect(isIgnored(stack, path.join(root, 'src/index.ts'), false)).toBe(
+      false,
+    );
+  });
+
+  it('should anchor patterns containing a slash to the .gitignore directory', () => {
+    const stack = rulesFor('/dist\ndocs/*.html\n');
+
+    expect(isIgnored(stack, path.join(root, 'dist'), true)).toBe(true);
+    expect(isIgnored(stack, path.join(root, 'src/dist'), true)).toBe(false);
+    expect(isIgnored(stack, path.join(root, 'docs/index.html'), false)).toBe(
+      true,
+    );
+    expect(isIgnored(stack, path.join(root, 'a/docs/index.html'), false)).toBe(
+      false,
+    );
+  });
+
+  it('should honour directory-only patterns and negations', () => {
+    const stack = rulesFor('cache/\n*.env\n!example.env\n');
+
+    expect(isIgnored(stack, path.join(root, 'cache'), true)).toBe(true);
+    expect(isIgnored(stack, path.join(root, 'cache'), false)).toBe(false);
+    expect(isIgnored(stack, path.join(root, 'prod.env'), false)).toBe(true);
+    expect(isIgnored(stack, path.join(root, 'example.env'), false)).toBe(false);
+  });
+
+  it('should let nested .gitignore files override outer ones', () => {
+    const stack = [
+      ...rulesFor('*.txt\n'),
+      { baseDir: path.join(root, 'keep'), rules: parseGitignore('!*.txt\n') },
+    ];
+
+    expect(isIgnored(stack, path.join(root, 'notes.txt'), false)).toBe(true);
+    expect(isIgnored(stack, path.join(root, 'keep/notes.txt'), false)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+
+import { matchesGlob } from '../../../src/lib/glob';
+
+describe('glob', () => {
+  describe('matchesGlob', () => {
+    it('should match single segment wildcards', () => {
+      expect(matchesGlob('file.pem', '*.pem')).toBe(true);
+      expect(matchesGlob('keys/file.pem', '*.pem')).toBe(false);
+      expect(matchesGlob('file.ts', 'file.?s')).toBe(true);
+    });
+
+    it('should match globstars across directories', () => {
+      expect(matchesGlob('src/a/b/c.test.ts', 'src/**/*.test.ts')).toBe(true);
+      expect(matchesGlob('src/c.test.ts', 'src/**/*.test.ts')).toBe(true);
+      expect(matchesGlob('lib/c.test.ts', 'src/**/*.test.ts')).toBe(false);
+      expect(matchesGlob('/etc/ssh/sshd_config', '/etc/**')).toBe(true);
+    });
+
+    it('should support character classes and alternation', () => {
+      expect(matchesGlob('a.js', '*.{js,ts}')).toBe(true);
+      expect(matchesGlob('a.ts', '*.{js,ts}')).toBe(true);
+      expect(matchesGlob('a.md', '*.{js,ts}')).toBe(false);
+      expect(matchesGlob('file1', 'file[0-9]')).toBe(true);
+      expect(matchesGlob('fileA', 'file[!0-9]')).toBe(true);
+    });
+
+    it('should treat regular expression characters literally', () => {
+      expect(matchesGlob('a+b(c).txt', 'a+b(c).txt')).toBe(true);
+      expect(matchesGlob('aXtxt', 'a.txt')).toBe(false);
+    });
+  });
+});
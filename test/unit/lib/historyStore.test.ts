@@ -0,0 +1,164 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  clearEditHistory,
+  configureEditHistory,
+  createDiskHistoryStore,
+  getEditHistory,
+  pruneOrphanedSessions,
+} from '../../../src/lib/historyStore';
+import { runInSession } from '../../../src/lib/sessionContext';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('historyStore', () => {
+  let testDir: string;
+  let historyDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('historyStore-test');
+    historyDir = path.join(testDir, '.text-editor-history');
+  });
+
+  afterEach(async () => {
+    configureEditHistory();
+    await cleanupTempTestDir(testDir);
+  });
+
+  describe('createDiskHistoryStore', () => {
+    it('should keep entries across store instances', async () => {
+      const filePath = path.join(testDir, 'file.txt');
+      await createDiskHistoryStore({ dir: historyDir }).push(filePath, 'v1');
+      await createDiskHistoryStore({ dir: historyDir }).push(filePath, 'v2');
+
+      const store = createDiskHistoryStore({ dir: historyDir });
+      expect(await store.count(filePath)).toBe(2);
+      expect((await store.pop(filePath))?.content).toBe('v2');
+      expect((await store.pop(filePath))?.content).toBe('v1');
+      expect(await store.pop(filePath)).toBeUndefined();
+    });
+
+    it('should discard entries that fail the integrity check', async () => {
+      const filePath = path.join(testDir, 'file.txt');
+      const store = createDiskHistoryStore({ dir: historyDir });
+      await store.push(filePath, 'good');
+      await store.push(filePath, 'tampered');
+
+      // Corrupt the most recent record without updating its checksum
+      const [entryDir] = await fs.readdir(historyDir);
+      const records = (
+        await fs.readdir(path.join(historyDir, entryDir))
+      ).sort();
+      const recordPath = path.join(historyDir, entryDir, records[1]);
+      const record = JSON.parse(await fs.readFile(recordPath, 'utf8'));
+      record.content = 'something else';
+      await fs.writeFile(recordPath, JSON.stringify(record), 'utf8');
+
+      expect((await store.pop(filePath))?.content).toBe('good');
+      expect(await store.count(filePath)).toBe(0);
+    });
+
+    it('should cap the number of entries per file', async () => {
+      const filePath = path.join(testDir, 'file.txt');
+      const store = createDiskHistoryStore({
+        dir: historyDir,
+        maxEntriesPerFile: 2,
+      });
+      for (const content of ['v1', 'v2', 'v3']) {
+        await store.push(filePath, content);
+      }
+
+      expect(await store.count(filePath)).toBe(2);
+      expect((await store.pop(filePath))?.content).toBe('v3');
+      expect((await store.pop(filePath))?.content).toBe('v2');
+    });
+
+    it('should evict the oldest entries when the size cap is exceeded', async () => {
+      const first = path.join(testDir, 'first.txt');
+      const second = path.join(testDir, 'second.txt');
+      const store = createDiskHistoryStore({
+        dir: historyDir,
+        maxTotalBytes: 1500,
+      });
+      await store.push(first, 'A'.repeat(1000));
+      await store.push(second, 'B'.repeat(1000));
+      // Pushing only trims the pushed file's entries
+      expect(await store.count(first)).toBe(1);
+
+      await store.prune();
+      expect(await store.count(first)).toBe(0);
+      expect(await store.count(second)).toBe(1);
+    });
+  });
+
+  it('should allow undo_edit after the server restarts', async () => {
+    const filePath = path.join(testDir, 'restart.txt');
+    await fs.writeFile(filePath, 'before', 'utf8');
+
+    configureEditHistory({ dir: historyDir });
+    await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'before',
+      new_str: 'after',
+      description: 'Testing persisted history',
+    });
+
+    // A fresh store pointing at the same directory simulates a restart
+    configureEditHistory({ dir: historyDir });
+    const result = await textEditorExecute({
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing undo after restart',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf8')).toBe('before');
+  });
+
+  it('should persist MCP sessions in their own subdirectory', async () => {
+    const filePath = path.join(testDir, 'session.txt');
+    configureEditHistory({ dir: historyDir });
+
+    await runInSession('abc', () =>
+      getEditHistory().undo.push(filePath, 'session content'),
+    );
+    expect(await getEditHistory().undo.peek(filePath)).toBeUndefined();
+    const sessionDir = path.join(historyDir, 'sessions', 'abc');
+    await expect(fs.access(sessionDir)).resolves.toBeUndefined();
+
+    await clearEditHistory('abc');
+    await expect(fs.access(sessionDir)).rejects.toThrow();
+    expect(
+      await runInSession('abc', () => getEditHistory().undo.peek(filePath)),
+    ).toBeUndefined();
+  });
+
+  it('should prune session histories left over by a previous run', async () => {
+    const filePath = path.join(testDir, 'orphan.txt');
+    configureEditHistory({ dir: historyDir });
+    for (const sessionId of ['live', 'orphan']) {
+      await runInSession(sessionId, () =>
+        getEditHistory().undo.push(filePath, sessionId),
+      );
+    }
+    // Only one of them is used again after the simulated restart
+    configureEditHistory({ dir: historyDir });
+    await runInSession('live', () => getEditHistory().undo.count(filePath));
+
+    const sessionsDir = path.join(historyDir, 'sessions');
+    expect(await pruneOrphanedSessions()).toEqual([]);
+    const dayLater = Date.now() + 24 * 60 * 60 * 1000;
+    expect(await pruneOrphanedSessions(dayLater)).toEqual(['orphan']);
+    expect(await fs.readdir(sessionsDir)).toEqual(['live']);
+  });
+});
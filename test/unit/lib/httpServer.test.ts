@@ -0,0 +1,132 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+
+import { HttpServerHandle, startHttpServer } from '../../../src/lib/httpServer';
+import { trackPending } from '../../../src/lib/pendingWork';
+
+const TOKEN = 'test-token';
+
+/** A server whose `count` tool counts its calls, to tell sessions apart. */
+const createCountingServer = () => {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  let calls = 0;
+  server.tool('count', {}, async () => ({
+    content: [{ type: 'text', text: String(++calls) }],
+  }));
+  server.tool(
+    'sleep',
+    { ms: z.number() },
+    trackPending(async ({ ms }: { ms: number }) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return { content: [{ type: 'text' as const, text: 'done' }] };
+    }),
+  );
+  return server;
+};
+
+const callText = async (client: Client, name: string, args = {}) => {
+  const result = await client.callTool({ name, arguments: args });
+  return (result.content as { text: string }[])[0].text;
+};
+
+describe('httpServer', () => {
+  let handle: HttpServerHandle | undefined;
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  it('should serve Streamable HTTP with one server per session', async () => {
+    handle = await startHttpServer({
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      createServer: createCountingServer,
+    });
+
+    const connect = async () => {
+      const client = new Client({ name: 'client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${handle!.url}/mcp`), {
+          requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+        }),
+      );
+      return client;
+    };
+    const first = await connect();
+    const second = await connect();
+
+    expect(await callText(first, 'count')).toBe('1');
+    expect(await callText(first, 'count')).toBe('2');
+    expect(await callText(second, 'count')).toBe('1');
+    expect(handle.sessionCount()).toBe(2);
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should refuse requests without the bearer token', async () => {
+    handle = await startHttpServer({
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      createServer: createCountingServer,
+    });
+
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer wrong',
+      },
+      body: '{}',
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('should serve the legacy SSE transport', async () => {
+    handle = await startHttpServer({
+      transport: 'sse',
+      host: '127.0.0.1',
+      port: 0,
+      createServer: createCountingServer,
+    });
+
+    const client = new Client({ name: 'client', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+
+    expect(await callText(client, 'count')).toBe('1');
+    expect(handle.sessionCount()).toBe(1);
+
+    await client.close();
+  });
+
+  it('should let tool calls in progress finish when closing', async () => {
+    handle = await startHttpServer({
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      createServer: createCountingServer,
+    });
+
+    const client = new Client({ name: 'client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)),
+    );
+    const call = callText(client, 'sleep', { ms: 200 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const closing = handle.close();
+    handle = undefined;
+    expect(await call).toBe('done');
+    await closing;
+  });
+});
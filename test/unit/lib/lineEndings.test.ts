@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  convertLineEndings,
+  detectLineEndings,
+  matchLineEndings,
+} from '../../../src/lib/lineEndings';
+
+describe('lineEndings', () => {
+  it('should detect the line ending style', () => {
+    expect(detectLineEndings('a\nb\n')).toBe('lf');
+    expect(detectLineEndings('a\r\nb\r\n')).toBe('crlf');
+    expect(detectLineEndings('a\r\nb\n')).toBe('mixed');
+    expect(detectLineEndings('a')).toBe('none');
+  });
+
+  it('should convert between styles', () => {
+    expect(convertLineEndings('a\r\nb\nc', 'lf')).toBe('a\nb\nc');
+    expect(convertLineEndings('a\r\nb\nc', 'crlf')).toBe('a\r\nb\r\nc');
+  });
+
+  it('should give edited content the endings of the original', () => {
+    expect(matchLineEndings('a\r\nb\r\n', 'a\r\nnew\nb\r\n')).toBe(
+      'a\r\nnew\r\nb\r\n',
+    );
+    expect(matchLineEndings('a\nb\n', 'a\r\nb\n')).toBe('a\nb\n');
+  });
+
+  it('should leave mixed or single-line files alone', () => {
+    expect(matchLineEndings('a\r\nb\n', 'a\r\nb\nc\n')).toBe('a\r\nb\nc\n');
+    expect(matchLineEndings('a', 'a\r\nb')).toBe('a\r\nb');
+  });
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { insertAtLine } from '../../../src/lib/edits';
+import { decodeText } from '../../../src/lib/encoding';
+import { hashContent } from '../../../src/lib/fileTracker';
+import { matchLineEndings } from '../../../src/lib/lineEndings';
+import {
+  getLineIndex,
+  insertLines,
+  invalidateLineIndex,
+  LineIndex,
+  readLines,
+} from '../../../src/lib/lineIndex';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+const collect = async (lines: AsyncGenerator<string>): Promise<string[]> => {
+  const result: string[] = [];
+  for await (const line of lines) {
+    result.push(line);
+  }
+  return result;
+};
+
+describe('lineIndex', () => {
+  let testDir: string;
+  let filePath: string;
+
+  const indexOf = async (content: string | Buffer): Promise<LineIndex> => {
+    await fs.writeFile(filePath, content);
+    invalidateLineIndex(filePath);
+    return (await getLineIndex(filePath))!;
+  };
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('lineIndex-test');
+    filePath = path.join(testDir, 'file.log');
+  });
+
+  afterEach(async () => {
+    invalidateLineIndex(filePath);
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should describe the file like a full read would', async () => {
+    const content = 'one\r\ntwo\r\nthree\r\n';
+    const index = await indexOf(content);
+
+    expect(index).toMatchObject({
+      encoding: 'utf8',
+      lineEnding: 'crlf',
+      lineCount: content.split('\n').length,
+      hash: hashContent(content),
+    });
+  });
+
+  it('should hash Latin-1 and BOM files as their decoded text', async () => {
+    const latin1 = Buffer.from('café\n', 'latin1');
+    expect(await indexOf(latin1)).toMatchObject({
+      encoding: 'latin1',
+      hash: hashContent(decodeText(latin1).content),
+    });
+
+    const bom = Buffer.from('﻿a\nb', 'utf8');
+    expect(await indexOf(bom)).toMatchObject({
+      encoding: 'utf8-bom',
+      hash: hashContent('a\nb'),
+    });
+  });
+
+  it('should not index UTF-16 files', async () => {
+    await fs.writeFile(filePath, Buffer.from([0xff, 0xfe, 0x61, 0x00]));
+    expect(await getLineIndex(filePath)).toBeNull();
+  });
+
+  it('should read any range of lines, past index checkpoints', async () => {
+    const lines = Array.from({ length: 2500 }, (_, i) => `line ${i + 1}`);
+    const index = await indexOf(`${lines.join('\n')}\n`);
+
+    expect(await collect(readLines(filePath, index, 999, 1002))).toEqual(
+      lines.slice(998, 1002),
+    );
+    expect(await collect(readLines(filePath, index, 2000, 2000))).toEqual([
+      'line 2000',
+    ]);
+    // The empty line after the final line break
+    expect(await collect(readLines(filePath, index, 2500, 2501))).toEqual([
+      'line 2500',
+      '',
+    ]);
+  });
+
+  it('should cut lines longer than the limit', async () => {
+    const index = await indexOf(`${'x'.repeat(100)}\nshort`);
+
+    expect(await collect(readLines(filePath, index, 1, 2, 10))).toEqual([
+      'x'.repeat(10),
+      'short',
+    ]);
+  });
+
+  it('should rebuild the index when the file changes', async () => {
+    await indexOf('a\nb');
+    await fs.writeFile(filePath, 'a\nb\nc\nd');
+    await fs.utimes(filePath, new Date(), new Date(Date.now() + 5000));
+
+    expect((await getLineIndex(filePath))!.lineCount).toBe(4);
+  });
+
+  it.each([
+    ['LF', 'one\ntwo\nthree\n'],
+    ['CRLF', 'one\r\ntwo\r\nthree\r\n'],
+    ['no final newline', 'one\ntwo\nthree'],
+  ])('should insert like insertAtLine into %s content', async (_, content) => {
+    for (
+      let insertLine = 0;
+      insertLine <= content.split('\n').length;
+      insertLine++
+    ) {
+      const index = await indexOf(content);
+      const hash = await insertLines(filePath, index, insertLine, 'new\nlines');
+
+      const expected = matchLineEndings(
+        content,
+        insertAtLine(content, insertLine, 'new\nlines'),
+      );
+      expect(await fs.readFile(filePath, 'utf8')).toBe(expected);
+      expect(hash).toBe(hashContent(expected));
+    }
+  });
+
+  it('should keep the encoding of the file when inserting', async () => {
+    const index = await indexOf(Buffer.from('café\n', 'latin1'));
+
+    await insertLines(filePath, index, 0, 'naïve');
+
+    expect(await fs.readFile(filePath)).toEqual(
+      Buffer.from('naïve\ncafé\n', 'latin1'),
+    );
+  });
+
+  it('should reject lines outside the file', async () => {
+    const index = await indexOf('a\nb');
+
+    await expect(insertLines(filePath, index, 3, 'x')).rejects.toThrow(
+      'Invalid line number: 3. File has 2 lines.',
+    );
+  });
+});
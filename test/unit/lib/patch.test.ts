@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+
+import { createUnifiedDiff } from '../../../src/lib/diff';
+import { applyHunks, parsePatch } from '../../../src/lib/patch';
+
+const lines = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+
+describe('patch', () => {
+  describe('parsePatch', () => {
+    it('should parse multi-file git diffs and strip a/ b/ prefixes', () => {
+      const patches = parsePatch(
+        [
+          'diff --git a/src/a.ts b/src/a.ts',
+          'index 123..456 100644',
+          '--- a/src/a.ts',
+          '+++ b/src/a.ts',
+          '@@ -1,2 +1,2 @@',
+          ' keep',
+          '-old',
+          '+new',
+          'diff --git a/new.txt b/new.txt',
+          '--- /dev/null',
+          '+++ b/new.txt',
+          '@@ -0,0 +1 @@',
+          '+hello',
+          '\\ No newline at end of file',
+          '',
+        ].join('\n'),
+      );
+
+      expect(patches).toHaveLength(2);
+      expect(patches[0]).toMatchObject({
+        oldPath: 'src/a.ts',
+        newPath: 'src/a.ts',
+      });
+      expect(patches[0].hunks[0]).toMatchObject({
+        oldStart: 1,
+        lines: [
+          { type: ' ', line: 'keep\n' },
+          { type: '-', line: 'old\n' },
+          { type: '+', line: 'new\n' },
+        ],
+      });
+      expect(patches[1]).toMatchObject({ oldPath: null, newPath: 'new.txt' });
+      expect(patches[1].hunks[0].lines).toEqual([{ type: '+', line: 'hello' }]);
+    });
+
+    it('should accept hunks without line numbers', () => {
+      const [patch] = parsePatch(
+        ['--- file.txt', '+++ file.txt', '@@ @@', ' a', '-b', '+c', ''].join(
+          '\n',
+        ),
+      );
+
+      expect(patch.hunks[0].oldStart).toBeUndefined();
+      expect(patch.hunks[0].lines).toHaveLength(3);
+    });
+
+    it('should read counted hunks that remove lines starting with "-- "', () => {
+      const [patch] = parsePatch(
+        [
+          '--- a/query.sql',
+          '+++ b/query.sql',
+          '@@ -1,3 +1,2 @@',
+          '--- old comment',
+          ' SELECT 1;',
+          '+++ counter',
+          '-SELECT 2;',
+          '',
+        ].join('\n'),
+      );
+
+      expect(patch.hunks[0].lines).toEqual([
+        { type: '-', line: '-- old comment\n' },
+        { type: ' ', line: 'SELECT 1;\n' },
+        { type: '+', line: '++ counter\n' },
+        { type: '-', line: 'SELECT 2;\n' },
+      ]);
+    });
+
+    it('should only treat git rename headers as renames', () => {
+      const patches = parsePatch(
+        [
+          'diff --git a/old.txt b/new.txt',
+          'similarity index 100%',
+          'rename from old.txt',
+          'rename to new.txt',
+          'diff --git a/a.txt b/b.txt',
+          'similarity index 80%',
+          'rename from a.txt',
+          'rename to b.txt',
+          '--- a/a.txt',
+          '+++ b/b.txt',
+          '@@ -1 +1 @@',
+          '-x',
+          '+y',
+          '--- a.txt.orig',
+          '+++ a.txt',
+          '@@ -1 +1 @@',
+          '-x',
+          '+y',
+          '',
+        ].join('\n'),
+      );
+
+      expect(patches).toEqual([
+        { oldPath: 'old.txt', newPath: 'new.txt', rename: true, hunks: [] },
+        expect.objectContaining({
+          oldPath: 'a.txt',
+          newPath: 'b.txt',
+          rename: true,
+        }),
+        expect.objectContaining({ oldPath: 'a.txt.orig', newPath: 'a.txt' }),
+      ]);
+      expect(patches[2].rename).toBeUndefined();
+    });
+
+    it('should reject text without file headers and truncated hunks', () => {
+      expect(() => parsePatch('just some text')).toThrow(
+        'no file headers found',
+      );
+      expect(() =>
+        parsePatch(['--- a', '+++ b', '@@ -1,3 +1,3 @@', ' a'].join('\n')),
+      ).toThrow('is truncated');
+    });
+  });
+
+  describe('applyHunks', () => {
+    it('should round-trip diffs produced by createUnifiedDiff', () => {
+      const oldText = lines(30);
+      const newText = oldText
+        .replace('line 3\n', 'line three\n')
+        .replace('line 20\n', '')
+        .replace(/line 30\n$/, 'line 30');
+      const [patch] = parsePatch(
+        createUnifiedDiff(oldText, newText, { oldPath: 'f', newPath: 'f' }),
+      );
+
+      const { content, results } = applyHunks(oldText, patch.hunks);
+      expect(content).toBe(newText);
+      expect(results.every((result) => result.applied)).toBe(true);
+    });
+
+    it('should find hunks at an offset and report it', () => {
+      const [patch] = parsePatch(
+        createUnifiedDiff(lines(10), lines(10).replace('line 5\n', 'five\n'), {
+          oldPath: 'f',
+          newPath: 'f',
+        }),
+      );
+      const shifted = `${lines(3, 'extra')}${lines(10)}`;
+
+      const { content, results } = applyHunks(shifted, patch.hunks);
+      expect(content).toBe(shifted.replace('line 5\n', 'five\n'));
+      expect(results[0]).toMatchObject({ applied: true, offset: 3, fuzz: 0 });
+
+      expect(
+        applyHunks(shifted, patch.hunks, { maxOffset: 2 }).results[0].applied,
+      ).toBe(false);
+    });
+
+    it('should ignore mismatched outer context lines with fuzz', () => {
+      const [patch] = parsePatch(
+        [
+          '--- f',
+          '+++ f',
+          '@@ -1,5 +1,5 @@',
+          ' stale context',
+          ' line 2',
+          '-line 3',
+          '+line three',
+          ' line 4',
+          ' line 5',
+          '',
+        ].join('\n'),
+      );
+
+      expect(
+        applyHunks(lines(5), patch.hunks, { fuzz: 0 }).results[0].applied,
+      ).toBe(false);
+
+      const { content, results } = applyHunks(lines(5), patch.hunks, {
+        fuzz: 1,
+      });
+      expect(content).toBe(lines(5).replace('line 3\n', 'line three\n'));
+      expect(results[0]).toMatchObject({ applied: true, fuzz: 1 });
+    });
+
+    it('should leave rejected hunks out and apply the others', () => {
+      const [patch] = parsePatch(
+        [
+          '--- f',
+          '+++ f',
+          '@@ -2 +2 @@',
+          '-line 2',
+          '+two',
+          '@@ -4 +4 @@',
+          '-missing',
+          '+four',
+          '',
+        ].join('\n'),
+      );
+
+      const { content, results } = applyHunks(lines(5), patch.hunks);
+      expect(content).toBe(lines(5).replace('line 2\n', 'two\n'));
+      expect(results.map((result) => result.applied)).toEqual([true, false]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  configurePathPolicy,
+  resolveAllowedPath,
+} from '../../../src/lib/pathPolicy';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('pathPolicy', () => {
+  let testDir: string;
+  let workspaceDir: string;
+  let outsideDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('pathPolicy-test');
+    workspaceDir = path.join(testDir, 'workspace');
+    outsideDir = path.join(testDir, 'outside');
+    await fs.mkdir(workspaceDir, { recursive: true });
+    await fs.mkdir(outsideDir, { recursive: true });
+    await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'secret', 'utf8');
+    await configurePathPolicy({
+      roots: [workspaceDir],
+      deny: ['.git', '*.pem', 'config/private/**'],
+    });
+  });
+
+  afterEach(async () => {
+    await configurePathPolicy({});
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should allow paths inside a workspace root', async () => {
+    const filePath = path.join(workspaceDir, 'src', 'new-file.ts');
+    await expect(resolveAllowedPath(filePath)).resolves.toBe(
+      path.join(await fs.realpath(workspaceDir), 'src', 'new-file.ts'),
+    );
+  });
+
+  it('should reject paths outside every workspace root', async () => {
+    await expect(
+      resolveAllowedPath(path.join(outsideDir, 'secret.txt')),
+    ).rejects.toThrow('outside the allowed workspace roots');
+  });
+
+  it('should resolve `..` segments before checking the roots', async () => {
+    await expect(
+      resolveAllowedPath(
+        path.join(workspaceDir, '..', 'outside', 'secret.txt'),
+      ),
+    ).rejects.toThrow('outside the allowed workspace roots');
+  });
+
+  it('should resolve symlinks that escape the workspace', async () => {
+    await fs.symlink(outsideDir, path.join(workspaceDir, 'escape'));
+    await expect(
+      resolveAllowedPath(path.join(workspaceDir, 'escape', 'secret.txt')),
+    ).rejects.toThrow('outside the allowed workspace roots');
+    await expect(
+      resolveAllowedPath(path.join(workspaceDir, 'escape', 'missing.txt')),
+    ).rejects.toThrow('outside the allowed workspace roots');
+  });
+
+  it('should reject paths matching a deny pattern', async () => {
+    await expect(
+      resolveAllowedPath(path.join(workspaceDir, '.git', 'config')),
+    ).rejects.toThrow('matches the deny pattern ".git"');
+    await expect(
+      resolveAllowedPath(path.join(workspaceDir, 'keys', 'server.pem')),
+    ).rejects.toThrow('matches the deny pattern "*.pem"');
+    await expect(
+      resolveAllowedPath(
+        path.join(workspaceDir, 'config', 'private', 'token.json'),
+      ),
+    ).rejects.toThrow('matches the deny pattern "config/private/**"');
+  });
+
+  it('should surface policy violations from the text editor tool', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: path.join(outsideDir, 'secret.txt'),
+      description: 'Testing sandbox enforcement',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('Access denied');
+  });
+});
@@ -0,0 +1,89 @@
+import { deflateSync } from 'zlib';
+
+import { describe, it, expect } from 'vitest';
+
+import { extractPdfText } from '../../../src/lib/pdfText';
+
+const buildPdf = (contents: string[], compress = true): Buffer => {
+  const parts: Buffer[] = [
+    Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'),
+  ];
+  const pageRefs = contents.map((_, index) => `${3 + index * 2} 0 R`);
+  parts.push(
+    Buffer.from(
+      `1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n` +
+        `2 0 obj\n<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${contents.length} >>\nendobj\n`,
+    ),
+  );
+  contents.forEach((content, index) => {
+    const data = compress ? deflateSync(content) : Buffer.from(content);
+    parts.push(
+      Buffer.from(
+        `${3 + index * 2} 0 obj\n<< /Type /Page /Parent 2 0 R /Contents ${4 + index * 2} 0 R >>\nendobj\n` +
+          `${4 + index * 2} 0 obj\n<< /Length ${data.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`,
+      ),
+      data,
+      Buffer.from('\nendstream\nendobj\n'),
+    );
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  return Buffer.concat(parts);
+};
+
+describe('extractPdfText', () => {
+  it('should extract text from compressed content streams', () => {
+    const pdf = buildPdf([
+      'BT /F1 12 Tf 72 720 Td (Hello, PDF!) Tj 0 -14 Td (Second line) Tj ET',
+      'BT /F1 12 Tf 72 720 Td [(Page) -250 (two)] TJ ET',
+    ]);
+
+    expect(extractPdfText(pdf)).toEqual({
+      pages: 2,
+      text: 'Hello, PDF!\nSecond line\nPage two',
+      encrypted: false,
+      unreadableStreams: 0,
+    });
+  });
+
+  it('should decode escapes, hex strings and UTF-16 text', () => {
+    const pdf = buildPdf(
+      ['BT (a \\(nested\\) \\101) Tj T* <48692021> Tj T* <FEFF00E9> Tj ET'],
+      false,
+    );
+
+    expect(extractPdfText(pdf).text).toBe('a (nested) A\nHi !\né');
+  });
+
+  it('should not read encrypted documents', () => {
+    const pdf = Buffer.concat([
+      buildPdf(['BT (secret) Tj ET']),
+      Buffer.from('trailer\n<< /Encrypt 9 0 R >>\n'),
+    ]);
+
+    expect(extractPdfText(pdf)).toEqual({
+      pages: 1,
+      text: '',
+      encrypted: true,
+      unreadableStreams: 0,
+    });
+  });
+
+  it('should not inflate streams beyond the size limit', () => {
+    const bomb = deflateSync(Buffer.alloc(32 * 1024 * 1024, ' '));
+    const pdf = Buffer.concat([
+      buildPdf(['BT (readable) Tj ET']),
+      Buffer.from(
+        `9 0 obj\n<< /Length ${bomb.length} /Filter /FlateDecode >>\nstream\n`,
+      ),
+      bomb,
+      Buffer.from('\nendstream\nendobj\n'),
+    ]);
+
+    expect(extractPdfText(pdf)).toEqual({
+      pages: 1,
+      text: 'readable',
+      encrypted: false,
+      unreadableStreams: 1,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { matchesPathGlob, searchFiles } from '../../../src/lib/search';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('search', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('search-test');
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'generated'), { recursive: true });
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'generated/\n');
+    await fs.writeFile(
+      path.join(testDir, 'src/app.ts'),
+      'import { loadUser } from "./user";\n\nconst a = 1;\nloadUser(a);\n',
+    );
+    await fs.writeFile(
+      path.join(testDir, 'src/user.js'),
+      'export function loadUser(id) {}\n',
+    );
+    await fs.writeFile(path.join(testDir, 'generated/api.ts'), 'loadUser();\n');
+    await fs.writeFile(
+      path.join(testDir, 'src/logo.bin'),
+      Buffer.from([0, 1, 2, ...Buffer.from('loadUser')]),
+    );
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should report matches as path:line: text, skipping binary and ignored files', async () => {
+    const result = await searchFiles(testDir, {
+      pattern: 'loadUser',
+      outputLimit: 10000,
+    });
+
+    const app = path.join(testDir, 'src/app.ts');
+    const user = path.join(testDir, 'src/user.js');
+    expect(result.text).toBe(
+      [
+        `${app}:1: import { loadUser } from "./user";`,
+        `${app}:4: loadUser(a);`,
+        `${user}:1: export function loadUser(id) {}`,
+      ].join('\n'),
+    );
+    expect(result).toMatchObject({
+      matchCount: 3,
+      fileCount: 2,
+      truncated: false,
+    });
+  });
+
+  it('should filter files with include and exclude globs', async () => {
+    const included = await searchFiles(testDir, {
+      pattern: 'loadUser',
+      include: ['*.js'],
+      outputLimit: 10000,
+    });
+    expect(included.fileCount).toBe(1);
+    expect(included.text).toContain('user.js');
+
+    const excluded = await searchFiles(testDir, {
+      pattern: 'loadUser',
+      exclude: ['src/*.ts'],
+      outputLimit: 10000,
+    });
+    expect(excluded.text).not.toContain('app.ts');
+  });
+
+  it('should show context lines and support regular expressions', async () => {
+    const result = await searchFiles(path.join(testDir, 'src/app.ts'), {
+      pattern: '^const \\w+ =',
+      regex: true,
+      contextLines: 1,
+      outputLimit: 10000,
+    });
+
+    const app = path.join(testDir, 'src/app.ts');
+    expect(result.text).toBe(
+      [`${app}-2- `, `${app}:3: const a = 1;`, `${app}-4- loadUser(a);`].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should stop at the output limit', async () => {
+    const result = await searchFiles(testDir, {
+      pattern: 'loadUser',
+      outputLimit: 150,
+    });
+
+    expect(result.truncated).toBe(true);
+    expect(result.text.length).toBeLessThanOrEqual(150);
+  });
+
+  it('should match globs without a slash against the file name', () => {
+    expect(matchesPathGlob('a/b/c.test.ts', '*.test.ts')).toBe(true);
+    expect(matchesPathGlob('a/b/c.test.ts', 'b/*.ts')).toBe(false);
+    expect(matchesPathGlob('a/b/c.test.ts', 'a/**/*.ts')).toBe(true);
+  });
+});
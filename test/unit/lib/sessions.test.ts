@@ -0,0 +1,138 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  clearSession,
+  endSession,
+  listSessions,
+  withSession,
+} from '../../../src/lib/sessions';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+type EditorParameters = Parameters<typeof textEditorExecute>[0];
+
+const runIn = async (sessionId: string, parameters: EditorParameters) => {
+  const result = await withSession(sessionId, () =>
+    textEditorExecute(parameters),
+  );
+  return JSON.parse(result.content[0].text);
+};
+
+describe('sessions', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('sessions-test');
+  });
+
+  afterEach(async () => {
+    await endSession('session-a');
+    await endSession('session-b');
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should keep the edit history of each session apart', async () => {
+    const filePath = path.join(testDir, 'shared.txt');
+    await fs.writeFile(filePath, 'original', 'utf8');
+
+    await runIn('session-a', {
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'original',
+      new_str: 'edited by a',
+      description: 'Testing session edit',
+    });
+
+    const undoInB = await runIn('session-b', {
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing undo from another session',
+    });
+    expect(undoInB.success).toBe(false);
+    expect(await fs.readFile(filePath, 'utf8')).toBe('edited by a');
+
+    const undoInA = await runIn('session-a', {
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing undo in the same session',
+    });
+    expect(undoInA.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf8')).toBe('original');
+  });
+
+  it('should track viewed files per session', async () => {
+    const filePath = path.join(testDir, 'viewed.txt');
+    await fs.writeFile(filePath, 'one', 'utf8');
+
+    await runIn('session-a', {
+      command: 'view',
+      path: filePath,
+      description: 'Testing view tracking',
+    });
+    await fs.writeFile(filePath, 'two', 'utf8');
+
+    // Only the session that viewed the old content sees a conflict
+    const editInB = await runIn('session-b', {
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'two',
+      new_str: 'three',
+      description: 'Testing edit without a view',
+    });
+    expect(editInB.success).toBe(true);
+
+    const editInA = await runIn('session-a', {
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'three',
+      new_str: 'four',
+      description: 'Testing edit after an external change',
+    });
+    expect(editInA.success).toBe(false);
+    expect(editInA.message).toContain('Conflict');
+  });
+
+  it('should list and clear sessions', async () => {
+    const filePath = path.join(testDir, 'cleared.txt');
+    await fs.writeFile(filePath, 'before', 'utf8');
+    await runIn('session-a', {
+      command: 'view',
+      path: filePath,
+      description: 'Testing session listing',
+    });
+    await runIn('session-a', {
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'before',
+      new_str: 'after',
+      description: 'Testing session listing',
+    });
+
+    const session = listSessions().find((info) => info.id === 'session-a');
+    expect(session).toMatchObject({ calls: 2, viewedFiles: 1 });
+
+    expect(await clearSession('session-a')).toBe(true);
+    expect(await clearSession('no-such-session')).toBe(false);
+    expect(
+      listSessions().find((info) => info.id === 'session-a')?.viewedFiles,
+    ).toBe(0);
+
+    const undo = await runIn('session-a', {
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing undo after clearing',
+    });
+    expect(undo.success).toBe(false);
+
+    await endSession('session-a');
+    expect(listSessions().map((info) => info.id)).not.toContain('session-a');
+  });
+});
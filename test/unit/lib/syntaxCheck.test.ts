@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkSyntax,
+  detectSyntaxLanguage,
+  findNewIssues,
+} from '../../../src/lib/syntaxCheck';
+
+describe('syntaxCheck', () => {
+  it('should tell the language of a file from its name', () => {
+    expect(detectSyntaxLanguage('/repo/package.json')).toBe('json');
+    expect(detectSyntaxLanguage('/repo/tsconfig.build.json')).toBe('jsonc');
+    expect(detectSyntaxLanguage('/repo/ci.YML')).toBe('yaml');
+    expect(detectSyntaxLanguage('/repo/Cargo.toml')).toBe('toml');
+    expect(detectSyntaxLanguage('/repo/index.mjs')).toBe('javascript');
+    expect(detectSyntaxLanguage('/repo/App.tsx')).toBe('typescript');
+    expect(detectSyntaxLanguage('/repo/README.md')).toBeUndefined();
+  });
+
+  it('should report JSON errors at their line', async () => {
+    expect(await checkSyntax('/a.json', '{"a": 1}')).toEqual([]);
+    expect(await checkSyntax('/a.json', '{\n  "a": 1,\n}')).toEqual([
+      {
+        line: 3,
+        column: 1,
+        message: 'Expected double-quoted property name',
+      },
+    ]);
+  });
+
+  it('should locate JSON errors that V8 reports without a position', async () => {
+    expect(await checkSyntax('/a.json', '{\n "a": 1,\n "b": }\n\n\n')).toEqual([
+      { line: 3, column: 7, message: "Unexpected token '}'" },
+    ]);
+    expect(await checkSyntax('/a.json', '[\n  1,\n  2,\n]\n')).toEqual([
+      { line: 4, column: 1, message: "Unexpected token ']'" },
+    ]);
+    expect(await checkSyntax('/a.json', '{"a": 1')).toEqual([
+      { line: 1, column: 8, message: 'Unexpected end of JSON input' },
+    ]);
+  });
+
+  it('should allow comments in tsconfig files', async () => {
+    expect(
+      await checkSyntax('/tsconfig.json', '{\n  // strict\n  "a": 1\n}'),
+    ).toEqual([]);
+    const issues = await checkSyntax(
+      '/tsconfig.json',
+      '{\n  "a": 1\n  "b": 2\n}',
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues![0]).toMatchObject({ line: 3, message: "',' expected." });
+  });
+
+  it('should report YAML and TOML errors', async () => {
+    expect(await checkSyntax('/a.yaml', 'a: 1\nb: [1, 2]\n')).toEqual([]);
+    const yamlIssues = await checkSyntax('/a.yaml', 'a: 1\nb: [1, 2\nc: 3\n');
+    expect(yamlIssues![0]).toMatchObject({ line: 3, column: 1 });
+    expect(yamlIssues![0].message).not.toContain('at line');
+
+    expect(await checkSyntax('/a.toml', 'a = 1\n[b]\nc = "d"\n')).toEqual([]);
+    expect(await checkSyntax('/a.toml', 'a = 1\nb = \n')).toEqual([
+      { line: 2, column: 5, message: 'invalid value' },
+    ]);
+  });
+
+  it('should report JavaScript and TypeScript syntax errors', async () => {
+    expect(
+      await checkSyntax('/a.ts', 'const a: number = 1;\nexport { a };\n'),
+    ).toEqual([]);
+    expect(await checkSyntax('/a.tsx', 'const a = <div>{a}</div>;\n')).toEqual(
+      [],
+    );
+    expect(await checkSyntax('/a.ts', 'const a = 1;\nconst b = ;\n')).toEqual([
+      { line: 2, column: 11, message: 'Expression expected.' },
+    ]);
+    expect(await checkSyntax('/a.js', 'function (')).not.toEqual([]);
+  });
+
+  it('should not check other files', async () => {
+    expect(await checkSyntax('/notes.md', '{')).toBeUndefined();
+  });
+
+  it('should find the issues an edit introduced wherever they moved', () => {
+    const old = { line: 3, column: 1, message: 'Expression expected.' };
+    expect(
+      findNewIssues(
+        [old],
+        [
+          { ...old, line: 5 },
+          { line: 1, column: 2, message: "';' expected." },
+        ],
+      ),
+    ).toEqual([{ line: 1, column: 2, message: "';' expected." }]);
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { configurePathPolicy } from '../../../src/lib/pathPolicy';
+import { registerFileResources } from '../../../src/resources/fileResources';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  cleanupTempTestDir,
+  createTempTestDir,
+} from '../../helpers/fileSystem';
+
+const PNG_HEADER = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00,
+]);
+
+describe('fileResources', () => {
+  let tempDir: string;
+  let server: McpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir('file-resources');
+    await configurePathPolicy({ roots: [tempDir] });
+
+    server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerFileResources(server);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await configurePathPolicy({});
+    await cleanupTempTestDir(tempDir);
+  });
+
+  const uriOf = (filePath: string) => pathToFileURL(filePath).href;
+
+  it('should advertise subscriptions', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({
+      listChanged: true,
+      subscribe: true,
+    });
+  });
+
+  it('should list the files of the workspace roots', async () => {
+    await fs.mkdir(path.join(tempDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'src', 'main.ts'), 'export {};\n');
+    await fs.writeFile(path.join(tempDir, 'notes.md'), '# Notes\n');
+    await fs.writeFile(path.join(tempDir, '.env'), 'SECRET=1\n');
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map(({ name, mimeType }) => ({ name, mimeType }))).toEqual(
+      [
+        { name: 'src/main.ts', mimeType: 'text/x-typescript' },
+        { name: 'notes.md', mimeType: 'text/markdown' },
+      ],
+    );
+    expect(resources[1].uri).toBe(uriOf(path.join(tempDir, 'notes.md')));
+  });
+
+  it('should read text and binary files', async () => {
+    const textPath = path.join(tempDir, 'config.json');
+    const imagePath = path.join(tempDir, 'image.png');
+    await fs.writeFile(textPath, '{"a": 1}\n');
+    await fs.writeFile(imagePath, PNG_HEADER);
+
+    const text = await client.readResource({ uri: uriOf(textPath) });
+    expect(text.contents).toEqual([
+      {
+        uri: uriOf(textPath),
+        mimeType: 'application/json',
+        text: '{"a": 1}\n',
+      },
+    ]);
+
+    const image = await client.readResource({ uri: uriOf(imagePath) });
+    expect(image.contents).toEqual([
+      {
+        uri: uriOf(imagePath),
+        mimeType: 'image/png',
+        blob: PNG_HEADER.toString('base64'),
+      },
+    ]);
+  });
+
+  it('should refuse files outside the workspace roots', async () => {
+    await expect(
+      client.readResource({ uri: 'file:///etc/hosts' }),
+    ).rejects.toThrow(/Resource file:\/\/\/etc\/hosts not found/);
+    await expect(
+      client.readResource({
+        uri: uriOf(path.join(tempDir, '..', 'outside.txt')),
+      }),
+    ).rejects.toThrow(/not found|Access denied/);
+  });
+
+  it('should notify subscribers of external changes and of edits', async () => {
+    const filePath = path.join(tempDir, 'watched.txt');
+    await fs.writeFile(filePath, 'one\n');
+    const updated = vi.fn();
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => updated(notification.params.uri),
+    );
+    await client.subscribeResource({ uri: uriOf(filePath) });
+
+    await fs.writeFile(filePath, 'two\n');
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(1));
+    expect(updated).toHaveBeenCalledWith(uriOf(filePath));
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await textEditorExecute({ command: 'view', path: filePath });
+    await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'two',
+      new_str: 'three',
+    });
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(2));
+
+    await client.unsubscribeResource({ uri: uriOf(filePath) });
+    await fs.writeFile(filePath, 'four\n');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(updated).toHaveBeenCalledTimes(2);
+  });
+});
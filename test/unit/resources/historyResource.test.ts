@@ -0,0 +1,69 @@
+import * as path from 'path';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { configureAuditLog } from '../../../src/lib/auditLog';
+import {
+  HISTORY_RESOURCE_URI,
+  registerHistoryResource,
+} from '../../../src/resources/historyResource';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  cleanupTempTestDir,
+  createTempTestDir,
+} from '../../helpers/fileSystem';
+
+describe('historyResource', () => {
+  let tempDir: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir('history-resource');
+    configureAuditLog();
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerHistoryResource(server);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cleanupTempTestDir(tempDir);
+  });
+
+  it('should serve the changes of the session as JSON Lines', async () => {
+    const filePath = path.join(tempDir, 'logged.txt');
+    await textEditorExecute({
+      command: 'create',
+      path: filePath,
+      file_text: 'hello\n',
+      description: 'Say hello',
+    });
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: HISTORY_RESOURCE_URI,
+        mimeType: 'application/jsonl',
+      }),
+    ]);
+
+    const { contents } = await client.readResource({
+      uri: HISTORY_RESOURCE_URI,
+    });
+    const lines = (contents[0].text as string).trimEnd().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      command: 'create',
+      description: 'Say hello',
+      path: filePath,
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { configureAuditLog, getAuditLog } from '../../../src/lib/auditLog';
+import { configureValidation } from '../../../src/lib/syntaxCheck';
+import { getBuiltinEditorTool } from '../../../src/tools/builtinTextEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('builtinTextEditor', () => {
+  const legacy = getBuiltinEditorTool('text_editor_20250124');
+  const current = getBuiltinEditorTool('text_editor_20250429');
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('builtin-text-editor-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should use the names and commands of each revision', () => {
+    expect(legacy.name).toBe('str_replace_editor');
+    expect(legacy.parameters.command.options).toContain('undo_edit');
+    expect(legacy.parameters).not.toHaveProperty('max_characters');
+
+    expect(current.name).toBe('str_replace_based_edit_tool');
+    expect(current.parameters.command.options).toEqual([
+      'view',
+      'create',
+      'str_replace',
+      'insert',
+    ]);
+    expect(current.parameters).toHaveProperty('max_characters');
+    expect(current.description).not.toContain('undo_edit');
+  });
+
+  it('should view files like cat -n', async () => {
+    const filePath = path.join(testDir, 'view.py');
+    await fs.writeFile(filePath, 'def f():\n\treturn 1\n');
+
+    const result = await legacy.execute({ command: 'view', path: filePath });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toBe(
+      `Here's the result of running \`cat -n\` on ${filePath}:\n` +
+        '     1\tdef f():\n' +
+        '     2\t        return 1\n' +
+        '     3\t\n',
+    );
+
+    const range = await legacy.execute({
+      command: 'view',
+      path: filePath,
+      view_range: [2, -1],
+    });
+    expect(range.content[0].text).toContain('     2\t        return 1');
+    expect(range.content[0].text).not.toContain('def f');
+  });
+
+  it('should report errors with the built-in messages', async () => {
+    const filePath = path.join(testDir, 'errors.txt');
+    await fs.writeFile(filePath, 'one\ntwo\none\n');
+
+    const cases: [Parameters<typeof legacy.execute>[0], string][] = [
+      [
+        { command: 'view', path: 'relative.txt' },
+        'The path relative.txt is not an absolute path, it should start with `/`. Maybe you meant /relative.txt?',
+      ],
+      [
+        { command: 'view', path: path.join(testDir, 'missing.txt') },
+        `The path ${path.join(testDir, 'missing.txt')} does not exist. Please provide a valid path.`,
+      ],
+      [
+        { command: 'create', path: filePath, file_text: '' },
+        `File already exists at: ${filePath}. Cannot overwrite files using command \`create\`.`,
+      ],
+      [
+        { command: 'str_replace', path: filePath, old_str: 'one' },
+        'No replacement was performed. Multiple occurrences of old_str `one` in lines [1, 3]. Please ensure it is unique',
+      ],
+      [
+        { command: 'str_replace', path: filePath, old_str: 'three' },
+        `No replacement was performed, old_str \`three\` did not appear verbatim in ${filePath}.`,
+      ],
+      [
+        { command: 'insert', path: filePath, insert_line: 9, new_str: 'x' },
+        'Invalid `insert_line` parameter: 9. It should be within the range of lines of the file: [0, 4]',
+      ],
+      [
+        { command: 'view', path: filePath, view_range: [0, 2] },
+        'Invalid `view_range`: [0, 2]. Its first element `0` should be within the range of lines of the file: [1, 4]',
+      ],
+      [
+        { command: 'view', path: testDir, view_range: [1, 2] },
+        'The `view_range` parameter is not allowed when `path` points to a directory.',
+      ],
+    ];
+    for (const [parameters, message] of cases) {
+      const result = await legacy.execute(parameters);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(message);
+    }
+
+    const undo = await current.execute({
+      command: 'undo_edit',
+      path: filePath,
+    });
+    expect(undo.content[0].text).toBe(
+      'Unrecognized command undo_edit. The allowed commands for the str_replace_based_edit_tool tool are: view, create, str_replace, insert',
+    );
+  });
+
+  it('should edit files and show a snippet of the result', async () => {
+    const filePath = path.join(testDir, 'edit.txt');
+    await fs.writeFile(filePath, 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj');
+
+    const replaced = await legacy.execute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'f',
+      new_str: 'F\nF2',
+    });
+    expect(replaced.content[0].text).toBe(
+      `The file ${filePath} has been edited. Here's the result of running \`cat -n\` on a snippet of ${filePath}:\n` +
+        '     2\tb\n     3\tc\n     4\td\n     5\te\n     6\tF\n     7\tF2\n' +
+        '     8\tg\n     9\th\n    10\ti\n    11\tj\n' +
+        'Review the changes and make sure they are as expected. Edit the file again if necessary.',
+    );
+
+    const inserted = await legacy.execute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 1,
+      new_str: 'inserted',
+    });
+    expect(inserted.content[0].text).toContain(
+      "Here's the result of running `cat -n` on a snippet of the edited file:\n     1\ta\n     2\tinserted\n     3\tb\n",
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'a\ninserted\nb\nc\nd\ne\nF\nF2\ng\nh\ni\nj',
+    );
+
+    const undone = await legacy.execute({
+      command: 'undo_edit',
+      path: filePath,
+    });
+    expect(undone.content[0].text).toContain(
+      `Last edit to ${filePath} undone successfully. Here's the result of running \`cat -n\` on ${filePath}:`,
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'a\nb\nc\nd\ne\nF\nF2\ng\nh\ni\nj',
+    );
+  });
+
+  it('should record changes with their diff in the audit log', async () => {
+    configureAuditLog();
+    const filePath = path.join(testDir, 'audited.txt');
+    await current.execute({
+      command: 'create',
+      path: filePath,
+      file_text: 'one\n',
+    });
+    await current.execute({ command: 'view', path: filePath });
+    await current.execute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'one',
+      new_str: 'two',
+    });
+
+    const entries = getAuditLog();
+    expect(entries.map((entry) => entry.command)).toEqual([
+      'create',
+      'str_replace',
+    ]);
+    expect(entries[0].diff).toContain(`--- /dev/null\n+++ ${filePath}\n`);
+    expect(entries[1]).toMatchObject({ path: filePath, files: [filePath] });
+    expect(entries[1].diff).toContain('-one\n+two\n');
+  });
+
+  it('should keep CRLF line endings when editing', async () => {
+    const filePath = path.join(testDir, 'crlf.txt');
+    await fs.writeFile(filePath, 'a\r\nb\r\n');
+
+    await legacy.execute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 1,
+      new_str: 'x',
+    });
+    const replaced = await legacy.execute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'x\nb',
+      new_str: 'y\nb',
+    });
+    expect(replaced.isError).toBeUndefined();
+    expect(await fs.readFile(filePath, 'utf8')).toBe('a\r\ny\r\nb\r\n');
+  });
+
+  it('should refuse to view binary files as text', async () => {
+    const filePath = path.join(testDir, 'image.png');
+    await fs.writeFile(
+      filePath,
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]),
+    );
+
+    const result = await legacy.execute({ command: 'view', path: filePath });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      `The file ${filePath} is not a text file (PNG image, image/png, 9 bytes) and cannot be viewed.`,
+    );
+  });
+
+  it('should refuse edits to files changed since they were viewed', async () => {
+    const filePath = path.join(testDir, 'tracked.txt');
+    await fs.writeFile(filePath, 'one\n');
+    await legacy.execute({ command: 'view', path: filePath });
+    await legacy.execute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'one',
+      new_str: 'two',
+    });
+    await fs.writeFile(filePath, 'changed elsewhere\n');
+
+    const result = await legacy.execute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 0,
+      new_str: 'header',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('was modified externally');
+    expect(await fs.readFile(filePath, 'utf8')).toBe('changed elsewhere\n');
+  });
+
+  it('should validate edits in the configured mode', async () => {
+    const filePath = path.join(testDir, 'config.json');
+    try {
+      configureValidation('strict');
+      const refused = await legacy.execute({
+        command: 'create',
+        path: filePath,
+        file_text: '{"a": 1,}',
+      });
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0].text).toContain(
+        `Edit refused: it would introduce syntax errors in ${filePath}`,
+      );
+      await expect(fs.access(filePath)).rejects.toThrow();
+
+      configureValidation('report');
+      const created = await legacy.execute({
+        command: 'create',
+        path: filePath,
+        file_text: '{"a": 1,}',
+      });
+      expect(created.content[0].text).toBe(
+        `File created successfully at: ${filePath}\nSyntax errors in ${filePath}:\n  line 1, column 9: Expected double-quoted property name`,
+      );
+    } finally {
+      configureValidation();
+    }
+  });
+
+  it('should create files and truncate views at max_characters', async () => {
+    const filePath = path.join(testDir, 'created.txt');
+
+    const created = await current.execute({
+      command: 'create',
+      path: filePath,
+      file_text: 'x'.repeat(100),
+    });
+    expect(created.content[0].text).toBe(
+      `File created successfully at: ${filePath}`,
+    );
+
+    const viewed = await current.execute({
+      command: 'view',
+      path: filePath,
+      max_characters: 10,
+    });
+    expect(viewed.content[0].text).toContain(
+      `     1\t${'x'.repeat(10)}<response clipped><NOTE>`,
+    );
+  });
+
+  it('should list directories two levels deep without hidden items', async () => {
+    await fs.mkdir(path.join(testDir, 'listing/sub/deep'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'listing/sub/deep/file.txt'), '');
+    await fs.writeFile(path.join(testDir, 'listing/.hidden'), '');
+    const dir = path.join(testDir, 'listing');
+
+    const result = await legacy.execute({ command: 'view', path: dir });
+    expect(result.content[0].text).toBe(
+      `Here's the files and directories up to 2 levels deep in ${dir}, excluding hidden items:\n` +
+        `${dir}\n${dir}/sub\n${dir}/sub/deep\n`,
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { endSession, withSession } from '../../../src/lib/sessions';
+import { getValidationMode } from '../../../src/lib/syntaxCheck';
+import { sessionAdminExecute } from '../../../src/tools/sessionAdmin';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+
+describe('sessionAdmin', () => {
+  afterEach(async () => {
+    await endSession('admin-session');
+  });
+
+  it('should list sessions and mark the current one', async () => {
+    const result = await withSession('admin-session', () =>
+      sessionAdminExecute({ command: 'list_sessions' }),
+    );
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.content).toContain('admin-session (this session)');
+  });
+
+  it('should clear a session by id', async () => {
+    await withSession('admin-session', async () => undefined);
+
+    const cleared = JSON.parse(
+      (
+        await sessionAdminExecute({
+          command: 'clear_session',
+          session_id: 'admin-session',
+        })
+      ).content[0].text,
+    );
+    expect(cleared.success).toBe(true);
+
+    const missing = JSON.parse(
+      (
+        await sessionAdminExecute({
+          command: 'clear_session',
+          session_id: 'missing-session',
+        })
+      ).content[0].text,
+    );
+    expect(missing.success).toBe(false);
+    expect(missing.message).toBe('Session not found: missing-session');
+  });
+
+  it('should give a session its own settings', async () => {
+    const configured = await withSession('admin-session', () =>
+      sessionAdminExecute({
+        command: 'configure_session',
+        output_limit: 100,
+        validate: 'strict',
+      }),
+    );
+    expect(JSON.parse(configured.content[0].text).message).toBe(
+      'Session admin-session uses output limit 100, validate strict',
+    );
+
+    expect(
+      await withSession('admin-session', async () => getValidationMode()),
+    ).toBe('strict');
+    expect(
+      await withSession('other-session', async () => getValidationMode()),
+    ).toBe('off');
+    await endSession('other-session');
+
+    const listing = await withSession('admin-session', () =>
+      textEditorExecute({ command: 'view', path: process.cwd() }),
+    );
+    const { content } = JSON.parse(listing.content[0].text);
+    expect(content).toContain('more entries omitted>');
+    expect(content.length).toBeLessThan(150);
+
+    const listed = JSON.parse(
+      (await sessionAdminExecute({ command: 'list_sessions' })).content[0].text,
+    );
+    expect(listed.content).toContain(
+      '0 viewed file(s), output limit 100, validate strict',
+    );
+  });
+});
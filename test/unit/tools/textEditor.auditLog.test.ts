@@ -0,0 +1,124 @@
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { configureAuditLog } from '../../../src/lib/auditLog';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+const run = async (parameters: Record<string, unknown>) => {
+  const result = await textEditorExecute({
+    description: 'Testing the audit log',
+    ...parameters,
+  } as Parameters<typeof textEditorExecute>[0]);
+  return JSON.parse(result.content[0].text);
+};
+
+const historyOf = async (historyPath: string) => {
+  const result = await run({ command: 'history', path: historyPath });
+  expect(result.success).toBe(true);
+  return result.content === ''
+    ? []
+    : result.content
+        .split('\n')
+        .map((line: string) => JSON.parse(line) as Record<string, unknown>);
+};
+
+describe('textEditor audit log', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-audit-log-test');
+    configureAuditLog();
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should record changes with their description and diff, newest first', async () => {
+    const filePath = path.join(testDir, 'audited.txt');
+    await run({
+      command: 'create',
+      path: filePath,
+      file_text: 'one\n',
+      description: 'Create the file',
+    });
+    await run({ command: 'view', path: filePath });
+    await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'one',
+      new_str: 'two',
+      description: 'Change one to two',
+    });
+
+    const entries = await historyOf(filePath);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      sessionId: 'default',
+      command: 'str_replace',
+      description: 'Change one to two',
+      path: filePath,
+      files: [filePath],
+    });
+    expect(entries[0].diff).toContain('-one\n+two');
+    expect(entries[1]).toMatchObject({
+      command: 'create',
+      description: 'Create the file',
+    });
+    expect(Date.parse(entries[1].timestamp as string)).not.toBeNaN();
+  });
+
+  it('should not record failed commands or commands that changed nothing', async () => {
+    const filePath = path.join(testDir, 'unchanged.txt');
+    await run({ command: 'create', path: filePath, file_text: 'a\n' });
+    const failed = await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'missing',
+      new_str: 'b',
+    });
+    expect(failed.success).toBe(false);
+    await run({
+      command: 'normalize_line_endings',
+      path: filePath,
+      line_ending: 'lf',
+    });
+
+    const entries = await historyOf(filePath);
+    expect(entries.map((entry) => entry.command)).toEqual(['create']);
+  });
+
+  it('should list the changes below a directory, including moves', async () => {
+    const dir = path.join(testDir, 'audited-dir');
+    const source = path.join(dir, 'source.txt');
+    const target = path.join(dir, 'nested', 'target.txt');
+    await run({ command: 'create', path: source, file_text: 'x\n' });
+    await run({ command: 'move', path: source, destination: target });
+
+    const moved = await historyOf(target);
+    expect(moved).toHaveLength(1);
+    expect(moved[0]).toMatchObject({
+      command: 'move',
+      path: source,
+      destination: target,
+      files: [source, target],
+    });
+
+    expect((await historyOf(dir)).map((entry) => entry.command)).toEqual([
+      'move',
+      'create',
+    ]);
+
+    const other = await run({ command: 'history', path: testDir + '-other' });
+    expect(other.message).toBe(
+      `No changes to ${testDir}-other in this session`,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+// A 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+);
+
+describe('textEditor view of binary files', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-binary-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should return images as image content', async () => {
+    const filePath = path.join(testDir, 'pixel.png');
+    await fs.writeFile(filePath, PNG);
+
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing image view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe(
+      `Image file: ${filePath} (PNG image, ${PNG.length} B)`,
+    );
+    expect(content.mime_type).toBe('image/png');
+    expect(result.content[1]).toEqual({
+      type: 'image',
+      data: PNG.toString('base64'),
+      mimeType: 'image/png',
+    });
+  });
+
+  it('should extract the text of PDFs', async () => {
+    const filePath = path.join(testDir, 'doc.pdf');
+    const stream = 'BT 72 720 Td (Quarterly report) Tj ET';
+    await fs.writeFile(
+      filePath,
+      `%PDF-1.4\n1 0 obj\n<< /Type /Page >>\nendobj\n` +
+        `2 0 obj\n<< /Length ${stream.length} >>\nstream\n${stream}\nendstream\nendobj\n%%EOF\n`,
+    );
+
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing PDF view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toMatch(
+      /^Text extracted from PDF file: .*doc\.pdf \(PDF document, \d+ B, 1 page\(s\)\):$/,
+    );
+    expect(content.content).toBe('Quarterly report');
+    expect(result.content).toHaveLength(1);
+  });
+
+  it('should summarize other binary files with a hex preview', async () => {
+    const filePath = path.join(testDir, 'program');
+    await fs.writeFile(
+      filePath,
+      Buffer.concat([Buffer.from('\x7fELF', 'latin1'), Buffer.alloc(12)]),
+    );
+
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing binary view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe(
+      `Binary file: ${filePath} (ELF executable, 16 B). First 16 bytes:`,
+    );
+    expect(content.content).toBe(
+      '00000000: 7f45 4c46 0000 0000 0000 0000 0000 0000  .ELF............',
+    );
+    expect(content.size).toBe(16);
+  });
+});
@@ -0,0 +1,142 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { hashContent } from '../../../src/lib/fileTracker';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor external modification detection', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-conflicts-test');
+    filePath = path.join(testDir, 'conflict.txt');
+    await fs.writeFile(filePath, 'first line\nsecond line', 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  const view = async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing view before edit',
+    });
+    return JSON.parse(result.content[0].text);
+  };
+
+  it('should report a content hash when viewing a file', async () => {
+    const content = await view();
+    expect(content.success).toBe(true);
+    expect(content.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should refuse edits to a file changed since it was viewed', async () => {
+    await view();
+    await fs.writeFile(filePath, 'first line\nchanged elsewhere', 'utf8');
+
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'first line',
+      new_str: 'edited line',
+      description: 'Testing edit after external change',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('was modified externally');
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'first line\nchanged elsewhere',
+    );
+  });
+
+  it('should refuse to restore a checkpoint over external changes', async () => {
+    await textEditorExecute({
+      command: 'checkpoint',
+      path: filePath,
+      label: 'viewed',
+      description: 'Testing checkpoint before external change',
+    });
+    await view();
+    await fs.writeFile(filePath, 'changed elsewhere', 'utf8');
+
+    const result = await textEditorExecute({
+      command: 'restore_checkpoint',
+      path: filePath,
+      label: 'viewed',
+      description: 'Testing restore after external change',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('was modified externally');
+    expect(await fs.readFile(filePath, 'utf8')).toBe('changed elsewhere');
+  });
+
+  it('should allow consecutive edits after a view', async () => {
+    await view();
+
+    for (const [old_str, new_str] of [
+      ['first', '1st'],
+      ['second', '2nd'],
+    ]) {
+      const result = await textEditorExecute({
+        command: 'str_replace',
+        path: filePath,
+        old_str,
+        new_str,
+        description: 'Testing consecutive edits',
+      });
+      expect(JSON.parse(result.content[0].text).success).toBe(true);
+    }
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('1st line\n2nd line');
+  });
+
+  it('should apply an edit whose expected_hash matches the current content', async () => {
+    const viewed = await view();
+    await fs.writeFile(filePath, 'first line\nchanged elsewhere', 'utf8');
+
+    // The stale hash is rejected...
+    let result = await textEditorExecute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 0,
+      new_str: 'header',
+      expected_hash: viewed.hash,
+      description: 'Testing stale expected_hash',
+    });
+    let content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('does not match expected_hash');
+
+    // ...while the hash of the current content goes through
+    result = await textEditorExecute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 0,
+      new_str: 'header',
+      expected_hash: hashContent('first line\nchanged elsewhere'),
+      description: 'Testing current expected_hash',
+    });
+    content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.hash).toBe(
+      hashContent('header\nfirst line\nchanged elsewhere'),
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'header\nfirst line\nchanged elsewhere',
+    );
+  });
+});
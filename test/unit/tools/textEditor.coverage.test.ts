@@ -45,7 +45,9 @@ describe('textEditor additional coverage tests', () => {
 
     const content = JSON.parse(result.content[0].text);
     expect(content.success).toBe(true);
-    expect(content.message).toBe('File content (truncated):');
+    expect(content.message).toBe(
+      'File content (truncated, line 1 is too long to show in full):',
+    );
     expect(content.content).toContain('<response clipped>');
     expect(content.content.length).toBeLessThan(largeContent.length);
   });
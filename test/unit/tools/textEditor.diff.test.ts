@@ -0,0 +1,83 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor diff output', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-diff-test');
+    filePath = path.join(testDir, 'diff.txt');
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+    await fs.writeFile(filePath, lines.join('\n'), 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should return a diff and a numbered snippet for str_replace', async () => {
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'line 6',
+      new_str: 'line six',
+      description: 'Testing diff output',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.diff).toContain('@@ -3,7 +3,7 @@');
+    expect(content.diff).toContain('-line 6\n+line six');
+    expect(content.content).toBe(
+      [
+        '2: line 2',
+        '3: line 3',
+        '4: line 4',
+        '5: line 5',
+        '6: line six',
+        '7: line 7',
+        '8: line 8',
+        '9: line 9',
+        '10: line 10',
+      ].join('\n'),
+    );
+  });
+
+  it('should diff new files against /dev/null', async () => {
+    const result = await textEditorExecute({
+      command: 'create',
+      path: path.join(testDir, 'new.txt'),
+      file_text: 'hello\n',
+      description: 'Testing diff for create',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.diff).toContain('--- /dev/null');
+    expect(content.diff).toContain('+hello');
+  });
+
+  it('should clip large diffs at the output limit', async () => {
+    const result = await textEditorExecute({
+      command: 'create',
+      path: filePath,
+      file_text: 'x'.repeat(100).concat('\n').repeat(200),
+      description: 'Testing clipped diff',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.diff.length).toBeLessThan(11 * 1024);
+    expect(content.diff).toMatch(/<diff clipped>$/);
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor encodings', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-encoding-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should report and preserve latin1 content across edits', async () => {
+    const filePath = path.join(testDir, 'legacy.txt');
+    await fs.writeFile(filePath, Buffer.from('Grüße aus Köln\n', 'latin1'));
+
+    let result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing latin1 view',
+    });
+    let content = JSON.parse(result.content[0].text);
+    expect(content.encoding).toBe('latin1');
+    expect(content.content).toBe('1: Grüße aus Köln\n2: ');
+
+    result = await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'Köln',
+      new_str: 'München',
+      description: 'Testing latin1 edit',
+    });
+    content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(filePath)).toEqual(
+      Buffer.from('Grüße aus München\n', 'latin1'),
+    );
+  });
+
+  it('should keep the byte order mark of UTF-8 files', async () => {
+    const filePath = path.join(testDir, 'bom.cs');
+    const bom = Buffer.from([0xef, 0xbb, 0xbf]);
+    await fs.writeFile(filePath, Buffer.concat([bom, Buffer.from('a = 1;')]));
+
+    await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'a = 1;',
+      new_str: 'a = 2;',
+      description: 'Testing BOM edit',
+    });
+
+    expect(await fs.readFile(filePath)).toEqual(
+      Buffer.concat([bom, Buffer.from('a = 2;')]),
+    );
+  });
+
+  it('should create files in the requested encoding', async () => {
+    const filePath = path.join(testDir, 'wide.txt');
+
+    const result = await textEditorExecute({
+      command: 'create',
+      path: filePath,
+      file_text: 'hi',
+      encoding: 'utf16le',
+      description: 'Testing create with encoding',
+    });
+
+    expect(JSON.parse(result.content[0].text).success).toBe(true);
+    expect(await fs.readFile(filePath)).toEqual(
+      Buffer.from([0xff, 0xfe, 0x68, 0x00, 0x69, 0x00]),
+    );
+  });
+
+  it('should restore checkpoints and deleted files in their encoding', async () => {
+    const imagePath = path.join(testDir, 'image.png');
+    const legacyPath = path.join(testDir, 'legacy.txt');
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+    const legacy = Buffer.from('Köln\n', 'latin1');
+    await fs.writeFile(imagePath, image);
+    await fs.writeFile(legacyPath, legacy);
+
+    await textEditorExecute({
+      command: 'checkpoint',
+      path: imagePath,
+      label: 'binary',
+      description: 'Testing checkpoint of a binary file',
+    });
+    await fs.rm(imagePath);
+    const restored = await textEditorExecute({
+      command: 'restore_checkpoint',
+      path: imagePath,
+      label: 'binary',
+      description: 'Testing restore of a binary file',
+    });
+    expect(JSON.parse(restored.content[0].text).success).toBe(true);
+    expect(await fs.readFile(imagePath)).toEqual(image);
+
+    await textEditorExecute({
+      command: 'view',
+      path: legacyPath,
+      description: 'Testing view before patch',
+    });
+    const patched = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: [
+        '--- legacy.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-Köln',
+        '',
+      ].join('\n'),
+      description: 'Testing patch deleting a latin1 file',
+    });
+    expect(JSON.parse(patched.content[0].text).success).toBe(true);
+    await textEditorExecute({
+      command: 'undo_edit',
+      path: legacyPath,
+      description: 'Testing undo of the deletion',
+    });
+    expect(await fs.readFile(legacyPath)).toEqual(legacy);
+  });
+});
@@ -0,0 +1,235 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+const run = async (parameters: Record<string, unknown>) => {
+  const result = await textEditorExecute({
+    description: 'Testing file operations',
+    ...parameters,
+  } as Parameters<typeof textEditorExecute>[0]);
+  return JSON.parse(result.content[0].text);
+};
+
+describe('textEditor file operations', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-file-operations-test');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should delete a file and restore its exact bytes on undo', async () => {
+    const filePath = path.join(testDir, 'latin1.txt');
+    const bytes = Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x00, 0xff, 0x0a]);
+    await fs.writeFile(filePath, bytes);
+
+    const result = await run({ command: 'delete', path: filePath });
+    expect(result.success).toBe(true);
+    expect(result.message).toBe(`Deleted ${filePath}`);
+    await expect(fs.access(filePath)).rejects.toThrow();
+
+    const undone = await run({ command: 'undo_edit', path: filePath });
+    expect(undone.success).toBe(true);
+    expect(await fs.readFile(filePath)).toEqual(bytes);
+  });
+
+  it('should delete a directory and restore all its files together', async () => {
+    const dir = path.join(testDir, 'deleted-dir');
+    await fs.mkdir(path.join(dir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'sub/b.txt'), 'b');
+
+    const result = await run({ command: 'delete', path: dir });
+    expect(result.message).toBe(`Deleted directory ${dir} (2 file(s))`);
+    expect(result.content).toBe(
+      [path.join(dir, 'a.txt'), path.join(dir, 'sub/b.txt')].join('\n'),
+    );
+    await expect(fs.access(dir)).rejects.toThrow();
+
+    await run({ command: 'undo_edit', path: path.join(dir, 'sub/b.txt') });
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf8')).toBe('a');
+    expect(await fs.readFile(path.join(dir, 'sub/b.txt'), 'utf8')).toBe('b');
+  });
+
+  it('should restore empty directories of a deleted directory', async () => {
+    const dir = path.join(testDir, 'with-empty');
+    await fs.mkdir(path.join(dir, 'sub/empty'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+
+    await run({ command: 'delete', path: dir });
+    const undone = await run({ command: 'undo_edit', path: dir });
+    expect(undone.success).toBe(true);
+    expect((await fs.stat(path.join(dir, 'sub/empty'))).isDirectory()).toBe(
+      true,
+    );
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf8')).toBe('a');
+
+    const redone = await run({ command: 'redo_edit', path: dir });
+    expect(redone.success).toBe(true);
+    await expect(fs.access(dir)).rejects.toThrow();
+  });
+
+  it('should move a file and move it back on undo', async () => {
+    const source = path.join(testDir, 'move-source.txt');
+    const destination = path.join(testDir, 'moved/target.txt');
+    await fs.writeFile(source, 'moving');
+
+    const result = await run({ command: 'move', path: source, destination });
+    expect(result.message).toBe(`Moved ${source} to ${destination}`);
+    expect(await fs.readFile(destination, 'utf8')).toBe('moving');
+    await expect(fs.access(source)).rejects.toThrow();
+
+    await run({ command: 'undo_edit', path: destination });
+    expect(await fs.readFile(source, 'utf8')).toBe('moving');
+    await expect(fs.access(destination)).rejects.toThrow();
+
+    await run({ command: 'redo_edit', path: source });
+    expect(await fs.readFile(destination, 'utf8')).toBe('moving');
+  });
+
+  it('should refuse to overwrite an existing target unless asked', async () => {
+    const source = path.join(testDir, 'overwrite-source.txt');
+    const destination = path.join(testDir, 'overwrite-target.txt');
+    await fs.writeFile(source, 'new');
+    await fs.writeFile(destination, 'old');
+
+    const refused = await run({ command: 'copy', path: source, destination });
+    expect(refused.success).toBe(false);
+    expect(refused.message).toBe(
+      `Destination already exists: ${destination}. Pass overwrite: true to replace it.`,
+    );
+    expect(await fs.readFile(destination, 'utf8')).toBe('old');
+
+    const result = await run({
+      command: 'move',
+      path: source,
+      destination,
+      overwrite: true,
+    });
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(destination, 'utf8')).toBe('new');
+
+    // Undo brings back both the source and the replaced file
+    await run({ command: 'undo_edit', path: source });
+    expect(await fs.readFile(source, 'utf8')).toBe('new');
+    expect(await fs.readFile(destination, 'utf8')).toBe('old');
+  });
+
+  it('should never replace a directory', async () => {
+    const source = path.join(testDir, 'into-dir.txt');
+    await fs.writeFile(source, 'text');
+    await fs.mkdir(path.join(testDir, 'existing-dir'));
+
+    const result = await run({
+      command: 'copy',
+      path: source,
+      destination: path.join(testDir, 'existing-dir'),
+      overwrite: true,
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Destination is an existing directory');
+  });
+
+  it('should copy a directory and remove the copies on undo', async () => {
+    const dir = path.join(testDir, 'copy-source');
+    const destination = path.join(testDir, 'copy-target');
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(dir, 'one.txt'), '1');
+    await fs.writeFile(path.join(dir, 'two.txt'), '2');
+
+    const result = await run({ command: 'copy', path: dir, destination });
+    expect(result.message).toBe(`Copied ${dir} to ${destination} (2 file(s))`);
+    expect(await fs.readFile(path.join(destination, 'two.txt'), 'utf8')).toBe(
+      '2',
+    );
+    expect(await fs.readFile(path.join(dir, 'one.txt'), 'utf8')).toBe('1');
+
+    await run({
+      command: 'undo_edit',
+      path: path.join(destination, 'one.txt'),
+    });
+    await expect(fs.access(destination)).rejects.toThrow();
+    expect(await fs.readdir(dir)).toEqual(['one.txt', 'two.txt']);
+  });
+
+  it('should move the directories of a moved directory back on undo', async () => {
+    const source = path.join(testDir, 'move-dir-source');
+    const destination = path.join(testDir, 'moved-dirs/target');
+    await fs.mkdir(path.join(source, 'sub/empty'), { recursive: true });
+    await fs.writeFile(path.join(source, 'a.txt'), 'a');
+
+    await run({ command: 'move', path: source, destination });
+    const undone = await run({ command: 'undo_edit', path: source });
+    expect(undone.message).toBe(
+      `Successfully reverted the move of ${source} to ${destination}`,
+    );
+    expect((await fs.stat(path.join(source, 'sub/empty'))).isDirectory()).toBe(
+      true,
+    );
+    expect(await fs.readFile(path.join(source, 'a.txt'), 'utf8')).toBe('a');
+    await expect(fs.access(path.join(testDir, 'moved-dirs'))).rejects.toThrow();
+
+    const redone = await run({ command: 'redo_edit', path: source });
+    expect(redone.message).toBe(
+      `Successfully reapplied the move of ${source} to ${destination}`,
+    );
+    await expect(fs.access(source)).rejects.toThrow();
+    expect(
+      (await fs.stat(path.join(destination, 'sub/empty'))).isDirectory(),
+    ).toBe(true);
+  });
+
+  it('should refuse to move a directory into itself', async () => {
+    const dir = path.join(testDir, 'self');
+    await fs.mkdir(dir);
+
+    const result = await run({
+      command: 'move',
+      path: dir,
+      destination: path.join(dir, 'inner'),
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('into itself');
+  });
+
+  it('should create directories', async () => {
+    const dir = path.join(testDir, 'made/nested');
+
+    const result = await run({ command: 'mkdir', path: dir });
+    expect(result.message).toBe(`Created directory ${dir}`);
+    expect((await fs.stat(dir)).isDirectory()).toBe(true);
+
+    const again = await run({ command: 'mkdir', path: dir });
+    expect(again.message).toBe(`Directory already exists: ${dir}`);
+
+    // Undo removes every level that was created, redo makes them again
+    const undone = await run({ command: 'undo_edit', path: dir });
+    expect(undone.success).toBe(true);
+    await expect(fs.access(path.join(testDir, 'made'))).rejects.toThrow();
+    await run({ command: 'redo_edit', path: dir });
+    expect((await fs.stat(dir)).isDirectory()).toBe(true);
+
+    // A directory that is no longer empty is not removed
+    await fs.writeFile(path.join(dir, 'added.txt'), '');
+    const refusedUndo = await run({ command: 'undo_edit', path: dir });
+    expect(refusedUndo.success).toBe(false);
+    expect(refusedUndo.message).toContain('added.txt has been added since');
+
+    const file = path.join(testDir, 'plain-file.txt');
+    await fs.writeFile(file, '');
+    const refused = await run({ command: 'mkdir', path: file });
+    expect(refused.success).toBe(false);
+  });
+});
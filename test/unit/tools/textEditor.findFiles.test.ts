@@ -0,0 +1,55 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor find_files command', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-find-files-test');
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src/a.ts'), '', 'utf8');
+    await fs.writeFile(path.join(testDir, 'src/b.js'), '', 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should list the files matching a glob', async () => {
+    const result = await textEditorExecute({
+      command: 'find_files',
+      path: testDir,
+      pattern: 'src/*.ts',
+      description: 'Testing find_files',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe('Found 1 files matching "src/*.ts":');
+    expect(content.content).toBe(path.join(testDir, 'src/a.ts'));
+    expect(content.next_cursor).toBeUndefined();
+  });
+
+  it('should require a directory', async () => {
+    const result = await textEditorExecute({
+      command: 'find_files',
+      path: path.join(testDir, 'src/a.ts'),
+      pattern: '*',
+      description: 'Testing find_files on a file',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('Directory not found');
+  });
+});
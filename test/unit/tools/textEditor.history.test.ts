@@ -0,0 +1,189 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor history commands', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-history-test');
+    filePath = path.join(testDir, 'history.txt');
+    await fs.writeFile(filePath, 'version 1', 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  describe('redo_edit', () => {
+    it('should reapply an undone edit', async () => {
+      await textEditorExecute({
+        command: 'str_replace',
+        path: filePath,
+        old_str: 'version 1',
+        new_str: 'version 2',
+        description: 'Testing redo setup',
+      });
+      await textEditorExecute({
+        command: 'undo_edit',
+        path: filePath,
+        description: 'Testing undo before redo',
+      });
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 1');
+
+      const result = await textEditorExecute({
+        command: 'redo_edit',
+        path: filePath,
+        description: 'Testing redo',
+      });
+
+      const content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(true);
+      expect(content.message).toContain('Successfully reapplied');
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 2');
+
+      // The redone edit can be undone again
+      await textEditorExecute({
+        command: 'undo_edit',
+        path: filePath,
+        description: 'Testing undo after redo',
+      });
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 1');
+    });
+
+    it('should discard redo history after a new edit', async () => {
+      await textEditorExecute({
+        command: 'str_replace',
+        path: filePath,
+        old_str: 'version 1',
+        new_str: 'version 2',
+        description: 'Testing redo invalidation setup',
+      });
+      await textEditorExecute({
+        command: 'undo_edit',
+        path: filePath,
+        description: 'Testing undo before new edit',
+      });
+      await textEditorExecute({
+        command: 'str_replace',
+        path: filePath,
+        old_str: 'version 1',
+        new_str: 'version 3',
+        description: 'Testing new edit after undo',
+      });
+
+      const result = await textEditorExecute({
+        command: 'redo_edit',
+        path: filePath,
+        description: 'Testing redo after new edit',
+      });
+
+      const content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(false);
+      expect(content.message).toContain('No undone edits to redo');
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 3');
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should restore every file in a checkpoint', async () => {
+      const otherPath = path.join(testDir, 'other.txt');
+      const newPath = path.join(testDir, 'created-later.txt');
+      await fs.writeFile(otherPath, 'other 1', 'utf8');
+
+      let result = await textEditorExecute({
+        command: 'checkpoint',
+        path: filePath,
+        label: 'before-refactor',
+        paths: [filePath, otherPath, newPath],
+        description: 'Testing checkpoint',
+      });
+      let content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(true);
+
+      await textEditorExecute({
+        command: 'create',
+        path: filePath,
+        file_text: 'version 2',
+        description: 'Testing edit after checkpoint',
+      });
+      await textEditorExecute({
+        command: 'create',
+        path: otherPath,
+        file_text: 'other 2',
+        description: 'Testing edit after checkpoint',
+      });
+      await textEditorExecute({
+        command: 'create',
+        path: newPath,
+        file_text: 'new file',
+        description: 'Testing create after checkpoint',
+      });
+
+      result = await textEditorExecute({
+        command: 'restore_checkpoint',
+        path: filePath,
+        label: 'before-refactor',
+        description: 'Testing restore_checkpoint',
+      });
+      content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(true);
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 1');
+      expect(await fs.readFile(otherPath, 'utf8')).toBe('other 1');
+      await expect(fs.stat(newPath)).rejects.toThrow();
+
+      // A single undo reverts the whole restore
+      await textEditorExecute({
+        command: 'undo_edit',
+        path: filePath,
+        description: 'Testing undo after restore',
+      });
+      expect(await fs.readFile(filePath, 'utf8')).toBe('version 2');
+      expect(await fs.readFile(otherPath, 'utf8')).toBe('other 2');
+      expect(await fs.readFile(newPath, 'utf8')).toBe('new file');
+    });
+
+    it('should list available checkpoints for an unknown label', async () => {
+      await textEditorExecute({
+        command: 'checkpoint',
+        path: filePath,
+        label: 'known',
+        description: 'Testing checkpoint',
+      });
+
+      const result = await textEditorExecute({
+        command: 'restore_checkpoint',
+        path: filePath,
+        label: 'unknown',
+        description: 'Testing unknown checkpoint',
+      });
+
+      const content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(false);
+      expect(content.message).toContain('Checkpoint not found: "unknown"');
+      expect(content.message).toContain('known');
+    });
+
+    it('should require a label', async () => {
+      const result = await textEditorExecute({
+        command: 'checkpoint',
+        path: filePath,
+        description: 'Testing checkpoint without label',
+      });
+
+      const content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(false);
+      expect(content.message).toContain('label parameter is required');
+    });
+  });
+});
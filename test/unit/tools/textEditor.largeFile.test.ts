@@ -0,0 +1,160 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+import { LARGE_FILE_SIZE } from '../../../src/lib/lineIndex';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor large files', () => {
+  let testDir: string;
+  let filePath: string;
+  let lineCount: number;
+
+  beforeAll(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-large-file-test');
+    filePath = path.join(testDir, 'generated.log');
+    const line = (n: number) => `${n}: ${'x'.repeat(90)}`;
+    lineCount = Math.ceil(LARGE_FILE_SIZE / 90);
+    const lines = Array.from({ length: lineCount }, (_, i) => line(i + 1));
+    await fs.writeFile(filePath, `${lines.join('\n')}\n`, 'utf8');
+  });
+
+  afterAll(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should view a range without reading the whole file', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [50000, 50001],
+      description: 'Testing a large file view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.content).toBe(
+      `50000: 50000: ${'x'.repeat(90)}\n50001: 50001: ${'x'.repeat(90)}`,
+    );
+    expect(content.total_lines).toBe(lineCount + 1);
+    expect(content.encoding).toBe('utf8');
+    expect(content.line_ending).toBe('lf');
+  });
+
+  it('should insert into the file and report the change', async () => {
+    const result = await textEditorExecute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 2,
+      new_str: 'inserted',
+      description: 'Testing a large file insert',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('cannot be undone');
+    expect(content.diff).toContain('@@ -1,5 +1,6 @@\n');
+    expect(content.diff).toContain('\n+inserted\n');
+    expect(content.content.split('\n')[2]).toBe('3: inserted');
+
+    const handle = await fs.open(filePath, 'r');
+    const head = Buffer.alloc(220);
+    await handle.read(head, 0, 220, 0);
+    await handle.close();
+    expect(head.toString().split('\n').slice(0, 3)).toEqual([
+      `1: ${'x'.repeat(90)}`,
+      `2: ${'x'.repeat(90)}`,
+      'inserted',
+    ]);
+
+    // The view reflects the edit, the old index is not reused
+    const view = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [3, 3],
+      description: 'Testing the view after the insert',
+    });
+    expect(JSON.parse(view.content[0].text).content).toBe('3: inserted');
+  });
+
+  it('should refuse streamed inserts it cannot validate in strict mode', async () => {
+    const yamlPath = path.join(testDir, 'generated.yaml');
+    await fs.copyFile(filePath, yamlPath);
+
+    const refused = await textEditorExecute({
+      command: 'insert',
+      path: yamlPath,
+      insert_line: 0,
+      new_str: 'header',
+      validate: 'strict',
+      description: 'Testing a strict large file insert',
+    });
+    let content = JSON.parse(refused.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain(
+      'is too large to check its syntax in strict validation mode',
+    );
+
+    const reported = await textEditorExecute({
+      command: 'insert',
+      path: yamlPath,
+      insert_line: 0,
+      new_str: 'header',
+      validate: 'report',
+      description: 'Testing a reported large file insert',
+    });
+    content = JSON.parse(reported.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('Its syntax was not checked either.');
+    await fs.rm(yamlPath);
+  });
+
+  it('should keep the undo history of a large file when inserting', async () => {
+    const editedPath = path.join(testDir, 'edited.log');
+    await fs.copyFile(filePath, editedPath);
+    await textEditorExecute({
+      command: 'str_replace',
+      path: editedPath,
+      old_str: '^1: x+$',
+      new_str: 'first',
+      regex: true,
+      description: 'Testing an edit before a large file insert',
+    });
+
+    const inserted = await textEditorExecute({
+      command: 'insert',
+      path: editedPath,
+      insert_line: 1,
+      new_str: 'second',
+      description: 'Testing an insert into an edited large file',
+    });
+    const content = JSON.parse(inserted.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).not.toContain('cannot be undone');
+
+    // Both edits can be undone, newest first
+    await textEditorExecute({
+      command: 'undo_edit',
+      path: editedPath,
+      description: 'Testing undo of the insert',
+    });
+    await textEditorExecute({
+      command: 'undo_edit',
+      path: editedPath,
+      description: 'Testing undo of the edit',
+    });
+    const head = (await fs.readFile(editedPath, 'utf8')).slice(0, 200);
+    expect(head.split('\n').slice(0, 2)).toEqual([
+      `1: ${'x'.repeat(90)}`,
+      `2: ${'x'.repeat(90)}`,
+    ]);
+    await fs.rm(editedPath);
+  });
+});
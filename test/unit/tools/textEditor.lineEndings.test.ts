@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor line endings', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-line-endings-test');
+    filePath = path.join(testDir, 'windows.txt');
+    await fs.writeFile(filePath, 'one\r\ntwo\r\nthree\r\n', 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should report line endings without showing carriage returns', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      description: 'Testing CRLF view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.line_ending).toBe('crlf');
+    expect(content.content).toBe('1: one\n2: two\n3: three\n4: ');
+  });
+
+  it('should keep CRLF line endings when editing', async () => {
+    await textEditorExecute({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'one\ntwo',
+      new_str: 'one\n1.5\ntwo',
+      description: 'Testing CRLF str_replace',
+    });
+    await textEditorExecute({
+      command: 'insert',
+      path: filePath,
+      insert_line: 4,
+      new_str: 'four',
+      description: 'Testing CRLF insert',
+    });
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'one\r\n1.5\r\ntwo\r\nthree\r\nfour\r\n',
+    );
+  });
+
+  it('should normalize line endings undoably', async () => {
+    filePath = path.join(testDir, 'normalize.txt');
+    await fs.writeFile(filePath, 'one\r\ntwo\r\nthree\r\n', 'utf8');
+
+    let result = await textEditorExecute({
+      command: 'normalize_line_endings',
+      path: filePath,
+      line_ending: 'lf',
+      description: 'Testing normalize',
+    });
+
+    let content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe(
+      `Converted crlf line endings in ${filePath} to lf`,
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe('one\ntwo\nthree\n');
+
+    result = await textEditorExecute({
+      command: 'normalize_line_endings',
+      path: filePath,
+      line_ending: 'lf',
+      description: 'Testing normalize again',
+    });
+    content = JSON.parse(result.content[0].text);
+    expect(content.message).toBe(`${filePath} already uses lf line endings`);
+
+    await textEditorExecute({
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing normalize undo',
+    });
+    expect(await fs.readFile(filePath, 'utf8')).toBe('one\r\ntwo\r\nthree\r\n');
+  });
+});
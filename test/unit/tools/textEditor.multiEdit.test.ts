@@ -0,0 +1,111 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor multi_edit command', () => {
+  let testDir: string;
+  let filePath: string;
+  const original = 'const a = 1;\nconst b = 2;\nconst c = a + b;\n';
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-multiEdit-test');
+    filePath = path.join(testDir, 'multi.js');
+    await fs.writeFile(filePath, original, 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should apply edits in order against the evolving content', async () => {
+    const result = await textEditorExecute({
+      command: 'multi_edit',
+      path: filePath,
+      edits: [
+        { old_str: 'const a = 1;', new_str: 'const first = 1;' },
+        // Only unique once the first edit has been applied
+        { old_str: 'a + b', new_str: 'first + b' },
+        { old_str: 'const b = 2;\n' },
+      ],
+      description: 'Testing multi_edit',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('Successfully applied 3 edits');
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'const first = 1;\nconst c = first + b;\n',
+    );
+  });
+
+  it('should name the edits that only matched ignoring whitespace', async () => {
+    const result = await textEditorExecute({
+      command: 'multi_edit',
+      path: filePath,
+      edits: [
+        { old_str: 'const a = 1;', new_str: 'const a = 10;' },
+        { old_str: 'const  b =  2;', new_str: 'const b = 20;' },
+      ],
+      description: 'Testing multi_edit fuzzy matches',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain(
+      'old_str of edit #2 did not match exactly; it was matched ignoring',
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe(
+      'const a = 10;\nconst b = 20;\nconst c = a + b;\n',
+    );
+  });
+
+  it('should write nothing and name the failing edit', async () => {
+    const result = await textEditorExecute({
+      command: 'multi_edit',
+      path: filePath,
+      edits: [
+        { old_str: 'const a = 1;', new_str: 'const a = 10;' },
+        { old_str: 'const d = 4;', new_str: 'const d = 40;' },
+      ],
+      description: 'Testing multi_edit failure',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toMatch(
+      /^Edit #2 of 2 failed: The specified old_str was not found in the file\. Closest matches:\n/,
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe(original);
+  });
+
+  it('should record a single undo entry for the batch', async () => {
+    await textEditorExecute({
+      command: 'multi_edit',
+      path: filePath,
+      edits: [
+        { old_str: 'const a = 1;', new_str: 'const a = 10;' },
+        { old_str: 'const b = 2;', new_str: 'const b = 20;' },
+      ],
+      description: 'Testing multi_edit undo',
+    });
+
+    const result = await textEditorExecute({
+      command: 'undo_edit',
+      path: filePath,
+      description: 'Testing undo after multi_edit',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf8')).toBe(original);
+  });
+});
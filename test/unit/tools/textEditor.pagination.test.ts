@@ -0,0 +1,114 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  configureOutputLimit,
+  textEditorExecute,
+} from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor paginated view', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-pagination-test');
+    filePath = path.join(testDir, 'long.txt');
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`);
+    await fs.writeFile(filePath, lines.join('\n'), 'utf8');
+  });
+
+  afterEach(async () => {
+    configureOutputLimit();
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should stop at a whole line and return the next range', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      output_limit: 50,
+      description: 'Testing paginated view',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe(
+      'File content (truncated, showing lines 1-5 of 100; pass next_range as view_range to see more):',
+    );
+    expect(content.content).toBe(
+      '1: line 1\n2: line 2\n3: line 3\n4: line 4\n5: line 5',
+    );
+    expect(content.total_lines).toBe(100);
+    expect(content.last_line).toBe(5);
+    expect(content.next_range).toEqual([6, 100]);
+  });
+
+  it('should continue from the next range', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [98, -1],
+      output_limit: 50,
+      description: 'Testing the last page',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.message).toBe('File content:');
+    expect(content.content).toBe('98: line 98\n99: line 99\n100: line 100');
+    expect(content.last_line).toBe(100);
+    expect(content.next_range).toBeUndefined();
+  });
+
+  it('should use the output limit configured for the server', async () => {
+    configureOutputLimit(30);
+
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [10, 20],
+      description: 'Testing the server output limit',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.content).toBe('10: line 10\n11: line 11');
+    expect(content.next_range).toEqual([12, 20]);
+  });
+
+  it('should reject ranges past the end of the file', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [101, -1],
+      description: 'Testing an invalid range',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toBe(
+      'Invalid view_range: line 101 is beyond the end of the file (100 lines)',
+    );
+  });
+
+  it('should reject ranges that end before they start', async () => {
+    const result = await textEditorExecute({
+      command: 'view',
+      path: filePath,
+      view_range: [3, 1],
+      description: 'Testing a reversed range',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toBe(
+      'Invalid view_range: end line 1 is before start line 3',
+    );
+  });
+});
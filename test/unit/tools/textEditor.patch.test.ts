@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor apply_patch command', () => {
+  let testDir: string;
+  let mainPath: string;
+  let obsoletePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-patch-test');
+    mainPath = path.join(testDir, 'main.txt');
+    obsoletePath = path.join(testDir, 'obsolete.txt');
+    await fs.writeFile(mainPath, 'one\ntwo\nthree\n', 'utf8');
+    await fs.writeFile(obsoletePath, 'old\n', 'utf8');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should modify, create and delete files and undo them together', async () => {
+    let result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: [
+        '--- a/main.txt',
+        '+++ b/main.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three',
+        '--- /dev/null',
+        '+++ b/added.txt',
+        '@@ -0,0 +1 @@',
+        '+added',
+        '--- a/obsolete.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-old',
+        '',
+      ].join('\n'),
+      description: 'Testing apply_patch',
+    });
+
+    let content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe('Patch applied to 3 file(s)');
+    expect(content.diff).toContain('+TWO');
+    expect(await fs.readFile(mainPath, 'utf8')).toBe('one\nTWO\nthree\n');
+    expect(await fs.readFile(path.join(testDir, 'added.txt'), 'utf8')).toBe(
+      'added\n',
+    );
+    await expect(fs.access(obsoletePath)).rejects.toThrow();
+
+    result = await textEditorExecute({
+      command: 'undo_edit',
+      path: mainPath,
+      description: 'Testing apply_patch undo',
+    });
+
+    content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(mainPath, 'utf8')).toBe('one\ntwo\nthree\n');
+    expect(await fs.readFile(obsoletePath, 'utf8')).toBe('old\n');
+    await expect(fs.access(path.join(testDir, 'added.txt'))).rejects.toThrow();
+  });
+
+  it('should report rejected hunks and apply the rest', async () => {
+    const result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: [
+        '--- main.txt',
+        '+++ main.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '@@ -3 +3 @@',
+        '-four',
+        '+FOUR',
+        '',
+      ].join('\n'),
+      description: 'Testing apply_patch rejects',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('1 of 2 hunk(s) rejected');
+    expect(content.content).toContain('Hunk #2 rejected:');
+    expect(content.content).toContain('-four');
+    expect(await fs.readFile(mainPath, 'utf8')).toBe('ONE\ntwo\nthree\n');
+  });
+
+  it('should fail without writing when no hunk applies', async () => {
+    const result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: ['--- main.txt', '+++ main.txt', '@@ @@', '-missing', ''].join(
+        '\n',
+      ),
+      description: 'Testing apply_patch failure',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('Patch could not be applied');
+    expect(await fs.readFile(mainPath, 'utf8')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('should patch whichever of the two names exists without renaming', async () => {
+    const backupPath = path.join(testDir, 'main.txt.orig');
+    await fs.writeFile(backupPath, 'one\ntwo\nthree\n', 'utf8');
+    const patch = [
+      '--- main.txt.orig',
+      '+++ main.txt',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+      '',
+    ].join('\n');
+
+    let result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch,
+      description: 'Testing apply_patch with a backup',
+    });
+    expect(JSON.parse(result.content[0].text).success).toBe(true);
+    expect(await fs.readFile(mainPath, 'utf8')).toBe('one\nTWO\nthree\n');
+    expect(await fs.readFile(backupPath, 'utf8')).toBe('one\ntwo\nthree\n');
+
+    await fs.rm(mainPath);
+    result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch,
+      description: 'Testing apply_patch without the new name',
+    });
+    expect(JSON.parse(result.content[0].text).success).toBe(true);
+    expect(await fs.readFile(backupPath, 'utf8')).toBe('one\nTWO\nthree\n');
+    await expect(fs.access(mainPath)).rejects.toThrow();
+  });
+
+  it('should rename files marked by git rename headers', async () => {
+    const result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: [
+        'diff --git a/obsolete.txt b/renamed.txt',
+        'similarity index 100%',
+        'rename from obsolete.txt',
+        'rename to renamed.txt',
+        '',
+      ].join('\n'),
+      description: 'Testing apply_patch renames',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.content).toContain('(renamed from ');
+    expect(await fs.readFile(path.join(testDir, 'renamed.txt'), 'utf8')).toBe(
+      'old\n',
+    );
+    await expect(fs.access(obsoletePath)).rejects.toThrow();
+  });
+
+  it('should refuse to create a file that already exists', async () => {
+    const result = await textEditorExecute({
+      command: 'apply_patch',
+      path: testDir,
+      patch: ['--- /dev/null', '+++ main.txt', '@@ -0,0 +1 @@', '+x', ''].join(
+        '\n',
+      ),
+      description: 'Testing apply_patch create conflict',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('file already exists');
+  });
+});
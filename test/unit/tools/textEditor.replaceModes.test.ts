@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor str_replace modes', () => {
+  let testDir: string;
+  let testFilePath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-replace-modes-test');
+    testFilePath = path.join(testDir, 'rename.ts');
+    await fs.writeFile(
+      testFilePath,
+      'const oldName = 1;\nexport { oldName };\nuse(oldName);\n',
+      'utf8',
+    );
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should report the count and lines of replace_all replacements', async () => {
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: testFilePath,
+      old_str: 'oldName',
+      new_str: 'newName',
+      replace_all: true,
+      description: 'Testing replace_all',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe(
+      `Successfully replaced text in ${testFilePath} (3 replacements at lines 1, 2, 3)`,
+    );
+    expect(await fs.readFile(testFilePath, 'utf8')).toBe(
+      'const newName = 1;\nexport { newName };\nuse(newName);\n',
+    );
+  });
+
+  it('should substitute regex capture groups', async () => {
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: testFilePath,
+      old_str: 'use\\((\\w+)\\)',
+      new_str: 'use($1, true)',
+      regex: true,
+      description: 'Testing regex replace',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('(1 replacement at line 3)');
+    expect(await fs.readFile(testFilePath, 'utf8')).toContain(
+      'use(oldName, true);',
+    );
+  });
+
+  it('should replace a single chosen occurrence', async () => {
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: testFilePath,
+      old_str: 'oldName',
+      new_str: 'exported',
+      occurrence: 2,
+      description: 'Testing occurrence',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(testFilePath, 'utf8')).toBe(
+      'const oldName = 1;\nexport { exported };\nuse(oldName);\n',
+    );
+  });
+
+  it('should fall back to whitespace-insensitive matching and say so', async () => {
+    await fs.writeFile(
+      testFilePath,
+      'if (ready) {\r\n\tstart();  \r\n}\r\n',
+      'utf8',
+    );
+
+    const result = await textEditorExecute({
+      command: 'str_replace',
+      path: testFilePath,
+      old_str: 'if (ready) {\n    start();\n}',
+      new_str: 'if (ready) {\n    start();\n    log();\n}',
+      description: 'Testing whitespace-insensitive match',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('old_str did not match exactly');
+    expect(await fs.readFile(testFilePath, 'utf8')).toBe(
+      'if (ready) {\r\n\tstart();\r\n\tlog();\r\n}\r\n',
+    );
+  });
+});
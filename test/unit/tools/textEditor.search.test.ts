@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor search command', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-search-test');
+    await fs.writeFile(path.join(testDir, 'a.ts'), 'const needle = 1;\n');
+    await fs.writeFile(path.join(testDir, 'b.ts'), 'const hay = 2;\n');
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should list matching lines with their paths', async () => {
+    const result = await textEditorExecute({
+      command: 'search',
+      path: testDir,
+      pattern: 'needle',
+      description: 'Testing search',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toBe('Found 1 matches in 1 files:');
+    expect(content.content).toBe(
+      `${path.join(testDir, 'a.ts')}:1: const needle = 1;`,
+    );
+  });
+
+  it('should report when nothing matches', async () => {
+    const result = await textEditorExecute({
+      command: 'search',
+      path: testDir,
+      pattern: 'missing',
+      description: 'Testing search without matches',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('No matches found for "missing"');
+  });
+
+  it('should require a pattern', async () => {
+    const result = await textEditorExecute({
+      command: 'search',
+      path: testDir,
+      description: 'Testing search without pattern',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toBe(
+      'pattern parameter is required for search command',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+describe('textEditor transaction command', () => {
+  let testDir: string;
+  let modulePath: string;
+  let indexPath: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-transaction-test');
+    modulePath = path.join(testDir, 'module.ts');
+    indexPath = path.join(testDir, 'index.ts');
+    await fs.writeFile(modulePath, 'export const oldName = 1;\n', 'utf8');
+    await fs.writeFile(
+      indexPath,
+      "import { oldName } from './module';\n",
+      'utf8',
+    );
+  });
+
+  afterEach(async () => {
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should apply operations across files and undo them together', async () => {
+    let result = await textEditorExecute({
+      command: 'transaction',
+      path: testDir,
+      operations: [
+        {
+          command: 'str_replace',
+          path: 'module.ts',
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+        {
+          command: 'str_replace',
+          path: indexPath,
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+        {
+          command: 'insert',
+          path: 'index.ts',
+          insert_line: 1,
+          new_str: 'export { newName };',
+        },
+        { command: 'create', path: 'README.md', file_text: '# Module\n' },
+      ],
+      description: 'Testing transaction',
+    });
+
+    let content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('4 operation(s) applied to 3 file(s)');
+    expect(await fs.readFile(modulePath, 'utf8')).toBe(
+      'export const newName = 1;\n',
+    );
+    expect(await fs.readFile(indexPath, 'utf8')).toBe(
+      "import { newName } from './module';\nexport { newName };\n",
+    );
+    expect(await fs.readFile(path.join(testDir, 'README.md'), 'utf8')).toBe(
+      '# Module\n',
+    );
+
+    // Undoing any one of the files reverts the whole transaction
+    result = await textEditorExecute({
+      command: 'undo_edit',
+      path: indexPath,
+      description: 'Testing transaction undo',
+    });
+
+    content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain('reverted transaction affecting 3');
+    expect(await fs.readFile(modulePath, 'utf8')).toBe(
+      'export const oldName = 1;\n',
+    );
+    expect(await fs.readFile(indexPath, 'utf8')).toBe(
+      "import { oldName } from './module';\n",
+    );
+    await expect(fs.stat(path.join(testDir, 'README.md'))).rejects.toThrow();
+
+    // ...and redo reapplies it
+    result = await textEditorExecute({
+      command: 'redo_edit',
+      path: modulePath,
+      description: 'Testing transaction redo',
+    });
+
+    content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(await fs.readFile(path.join(testDir, 'README.md'), 'utf8')).toBe(
+      '# Module\n',
+    );
+  });
+
+  it('should name the operations that only matched ignoring whitespace', async () => {
+    const result = await textEditorExecute({
+      command: 'transaction',
+      path: testDir,
+      operations: [
+        {
+          command: 'str_replace',
+          path: 'module.ts',
+          old_str: 'export  const oldName =  1;',
+          new_str: 'export const newName = 1;',
+        },
+        {
+          command: 'str_replace',
+          path: 'index.ts',
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+      ],
+      description: 'Testing transaction fuzzy matches',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(true);
+    expect(content.message).toContain(
+      'old_str of operation #1 did not match exactly; it was matched ignoring',
+    );
+    expect(await fs.readFile(modulePath, 'utf8')).toBe(
+      'export const newName = 1;\n',
+    );
+  });
+
+  it('should write nothing when an operation fails validation', async () => {
+    const result = await textEditorExecute({
+      command: 'transaction',
+      path: testDir,
+      operations: [
+        {
+          command: 'str_replace',
+          path: 'module.ts',
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+        {
+          command: 'str_replace',
+          path: 'index.ts',
+          old_str: 'missing',
+          new_str: 'newName',
+        },
+      ],
+      description: 'Testing failing transaction',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain(
+      'Operation #2 of 2 (str_replace index.ts) failed',
+    );
+    expect(content.message).toContain('No files were modified');
+    expect(await fs.readFile(modulePath, 'utf8')).toBe(
+      'export const oldName = 1;\n',
+    );
+  });
+
+  it('should refuse to undo a transaction after one of its files changed', async () => {
+    await textEditorExecute({
+      command: 'transaction',
+      path: testDir,
+      operations: [
+        {
+          command: 'str_replace',
+          path: 'module.ts',
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+        {
+          command: 'str_replace',
+          path: 'index.ts',
+          old_str: 'oldName',
+          new_str: 'newName',
+        },
+      ],
+      description: 'Testing transaction before a later edit',
+    });
+    await textEditorExecute({
+      command: 'str_replace',
+      path: indexPath,
+      old_str: './module',
+      new_str: './module.js',
+      description: 'Testing later edit',
+    });
+
+    const result = await textEditorExecute({
+      command: 'undo_edit',
+      path: modulePath,
+      description: 'Testing undo of a superseded transaction',
+    });
+
+    const content = JSON.parse(result.content[0].text);
+    expect(content.success).toBe(false);
+    expect(content.message).toContain('has been edited since');
+  });
+});
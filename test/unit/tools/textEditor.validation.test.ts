@@ -0,0 +1,143 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { configureValidation } from '../../../src/lib/syntaxCheck';
+import { textEditorExecute } from '../../../src/tools/textEditor';
+import {
+  createTempTestDir,
+  cleanupTempTestDir,
+  ensureTempDirExists,
+} from '../../helpers/fileSystem';
+
+const run = async (parameters: Record<string, unknown>) => {
+  const result = await textEditorExecute({
+    description: 'Testing syntax validation',
+    ...parameters,
+  } as Parameters<typeof textEditorExecute>[0]);
+  return JSON.parse(result.content[0].text);
+};
+
+describe('textEditor syntax validation', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    await ensureTempDirExists();
+    testDir = await createTempTestDir('textEditor-validation-test');
+  });
+
+  afterEach(async () => {
+    configureValidation();
+    await cleanupTempTestDir(testDir);
+  });
+
+  it('should not check edits unless asked to', async () => {
+    const filePath = path.join(testDir, 'unchecked.json');
+    const result = await run({
+      command: 'create',
+      path: filePath,
+      file_text: '{"a": }',
+    });
+    expect(result.success).toBe(true);
+    expect(result.syntax_errors).toBeUndefined();
+  });
+
+  it('should report the syntax errors an edit leaves', async () => {
+    const filePath = path.join(testDir, 'reported.ts');
+    await run({
+      command: 'create',
+      path: filePath,
+      file_text: 'const a = 1;\nconst b = 2;\n',
+    });
+    await run({ command: 'view', path: filePath });
+
+    const result = await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'const b = 2;',
+      new_str: 'const b = ;',
+      validate: 'report',
+    });
+    expect(result.success).toBe(true);
+    expect(result.syntax_errors).toEqual([
+      {
+        path: filePath,
+        line: 2,
+        column: 11,
+        message: 'Expression expected.',
+      },
+    ]);
+    expect(await fs.readFile(filePath, 'utf8')).toContain('const b = ;');
+  });
+
+  it('should refuse edits that introduce errors in strict mode', async () => {
+    const filePath = path.join(testDir, 'strict.json');
+    await fs.writeFile(filePath, '{\n  "a": 1\n}\n');
+    await run({ command: 'view', path: filePath });
+
+    const result = await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: '"a": 1',
+      new_str: '"a": 1,',
+      validate: 'strict',
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      `Edit refused: it would introduce syntax errors in ${filePath}. No files were modified.\n  line 3, column 1: Expected double-quoted property name`,
+    );
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{\n  "a": 1\n}\n');
+  });
+
+  it('should not blame an edit for a JSON error elsewhere in strict mode', async () => {
+    const filePath = path.join(testDir, 'trailing.json');
+    await fs.writeFile(filePath, '{\n  "a": 1,\n  "b": }\n');
+    await run({ command: 'view', path: filePath });
+
+    const result = await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: '"a": 1',
+      new_str: '"a": 2',
+      validate: 'strict',
+    });
+    expect(result.success).toBe(true);
+    expect(result.syntax_errors).toEqual([
+      {
+        path: filePath,
+        line: 3,
+        column: 8,
+        message: "Unexpected token '}'",
+      },
+    ]);
+  });
+
+  it('should allow edits to files that were already broken in strict mode', async () => {
+    configureValidation('strict');
+    const filePath = path.join(testDir, 'broken.yaml');
+    await fs.writeFile(filePath, 'a: [1, 2\nb: 3\n');
+    await run({ command: 'view', path: filePath });
+
+    const result = await run({
+      command: 'str_replace',
+      path: filePath,
+      old_str: 'b: 3',
+      new_str: 'b: 4',
+    });
+    expect(result.success).toBe(true);
+    expect(result.syntax_errors).toHaveLength(1);
+
+    const transaction = await run({
+      command: 'transaction',
+      path: testDir,
+      operations: [
+        { command: 'create', path: 'ok.toml', file_text: 'a = 1\n' },
+        { command: 'create', path: 'bad.toml', file_text: 'a = \n' },
+      ],
+    });
+    expect(transaction.success).toBe(false);
+    expect(transaction.message).toContain('bad.toml');
+    await expect(fs.access(path.join(testDir, 'ok.toml'))).rejects.toThrow();
+  });
+});